@@ -0,0 +1,31 @@
+// Service worker for expiry reminders. The app decides when a reminder is due and shows it
+// through this worker, which handles clicks even while the tab is in the background.
+// The timing lives in the page, so reminders only fire while a LinkExpiry tab is open, and
+// browsers may hold them back by a minute or more while that tab is in the background.
+
+const EXTEND_MESSAGE = 'linkexpiry:extend';
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('notificationclick', (event) => {
+  const { linkId, hours } = event.notification.data || {};
+  event.notification.close();
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows[0];
+
+    if (event.action === 'extend' && linkId) {
+      // Let an open tab do the update so the list refreshes; otherwise open one that will
+      if (client) {
+        client.postMessage({ type: EXTEND_MESSAGE, linkId, hours });
+        return client.focus();
+      }
+      return self.clients.openWindow(`/?extend=${encodeURIComponent(linkId)}&hours=${hours}`);
+    }
+
+    return client ? client.focus() : self.clients.openWindow('/');
+  })());
+});
@@ -6,8 +6,10 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import LinkRedirect from "./pages/LinkRedirect";
 import Analytics from "./pages/Analytics";
+import LinkAnalytics from "./pages/LinkAnalytics";
 import Pricing from "./pages/Pricing";
 import NotFound from "./pages/NotFound";
+import LinkLifecycleSweeper from "./components/LinkLifecycleSweeper";
 
 const queryClient = new QueryClient();
 
@@ -17,10 +19,12 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
+        <LinkLifecycleSweeper />
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/l/:shortUrl" element={<LinkRedirect />} />
           <Route path="/analytics" element={<Analytics />} />
+          <Route path="/analytics/:linkId" element={<LinkAnalytics />} />
           <Route path="/pricing" element={<Pricing />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
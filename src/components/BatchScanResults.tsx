@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, FileSpreadsheet, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  BATCH_STATUS_LABELS,
+  BatchColumn,
+  BatchItem,
+  BatchSort,
+  BatchStatus,
+  exportBatchCsv,
+  sortBatchRows,
+  toBatchRows,
+} from '@/lib/batch-scan';
+import { downloadFile, exportFileName } from '@/lib/link-export';
+
+interface BatchScanResultsProps {
+  items: BatchItem[];
+  finished: number;
+  isRunning: boolean;
+  onClear: () => void;
+}
+
+const COLUMNS: { column: BatchColumn; label: string }[] = [
+  { column: 'fileName', label: 'File' },
+  { column: 'format', label: 'Format' },
+  { column: 'payload', label: 'Payload' },
+  { column: 'status', label: 'Status' },
+];
+
+const STATUS_CLASSES: Record<BatchStatus, string> = {
+  queued: 'text-gray-500',
+  scanning: 'text-blue-600 border-blue-200',
+  decoded: 'text-green-700 border-green-200 bg-green-50',
+  'not-found': 'text-amber-700 border-amber-200 bg-amber-50',
+  'timed-out': 'text-red-600 border-red-200 bg-red-50',
+  failed: 'text-red-600 border-red-200 bg-red-50',
+};
+
+// Progress and a sortable table of everything found in a batch of images
+const BatchScanResults = ({ items, finished, isRunning, onClear }: BatchScanResultsProps) => {
+  const [sort, setSort] = useState<BatchSort | null>(null);
+  const rows = sortBatchRows(toBatchRows(items), sort);
+  const decoded = items.filter(item => item.status === 'decoded').length;
+
+  // Ascending first, then descending, then back to queue order
+  const toggleSort = (column: BatchColumn) => {
+    setSort((current) => {
+      if (current?.column !== column) return { column, direction: 'asc' };
+      return current.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const sortIcon = (column: BatchColumn) => {
+    if (sort?.column !== column) return <ArrowUpDown className="h-3 w-3 opacity-50" />;
+    return sort.direction === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            {isRunning && <Loader2 className="w-5 h-5 animate-spin text-blue-600" />}
+            Batch Scan
+          </h2>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => downloadFile(exportBatchCsv(rows), exportFileName('scan-results', 'csv'), 'text/csv')}
+              disabled={rows.length === 0}
+            >
+              <FileSpreadsheet className="w-4 h-4" />
+              Export CSV
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={onClear}>
+              <X className="w-4 h-4" />
+              {isRunning ? 'Cancel' : 'Clear'}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Progress value={items.length === 0 ? 0 : (finished / items.length) * 100} />
+          <p className="text-sm text-gray-600">
+            {finished} of {items.length} image{items.length === 1 ? '' : 's'} scanned, {decoded} with codes
+          </p>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto rounded border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {COLUMNS.map(({ column, label }) => (
+                  <TableHead key={column}>
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 hover:text-gray-900"
+                      onClick={() => toggleSort(column)}
+                    >
+                      {label}
+                      {sortIcon(column)}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell className="max-w-[14rem] truncate" title={row.fileName}>{row.fileName}</TableCell>
+                  <TableCell className="whitespace-nowrap">{row.format}</TableCell>
+                  <TableCell className="max-w-[20rem] font-mono text-xs break-all">{row.payload}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={`whitespace-nowrap ${STATUS_CLASSES[row.status]}`}>
+                      {BATCH_STATUS_LABELS[row.status]}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BatchScanResults;
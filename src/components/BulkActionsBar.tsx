@@ -0,0 +1,188 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CalendarPlus, Share2, Tag, Trash2, X } from 'lucide-react';
+import { addDays, addHours } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useTags, useUpdateLinks } from '@/hooks/use-links';
+import { useDeleteWithUndo } from '@/hooks/use-delete-with-undo';
+import { ClickEvent, Link, LinkUpdate } from '@/lib/link-repository';
+import { p2pService, toP2PLink } from '@/lib/p2p-service';
+import ExportMenu from '@/components/ExportMenu';
+
+interface BulkActionsBarProps {
+  selectedLinks: Link[];
+  clicks: ClickEvent[];
+  onClear: () => void;
+}
+
+const EXTEND_OPTIONS: { label: string; add: (date: Date) => Date }[] = [
+  { label: '1 hour', add: date => addHours(date, 1) },
+  { label: '1 day', add: date => addDays(date, 1) },
+  { label: '7 days', add: date => addDays(date, 7) },
+  { label: '30 days', add: date => addDays(date, 30) },
+];
+
+const BulkActionsBar = ({ selectedLinks, clicks, onClear }: BulkActionsBarProps) => {
+  const { data: tags = [] } = useTags();
+  const updateLinks = useUpdateLinks();
+  const { deleteWithUndo, isDeleting } = useDeleteWithUndo();
+  const { toast } = useToast();
+
+  const count = selectedLinks.length;
+  const selectedIds = new Set(selectedLinks.map(link => link.id));
+  const selectedClicks = clicks.filter(click => selectedIds.has(click.linkId));
+
+  const update = async (changes: (link: Link) => LinkUpdate, success: string) => {
+    try {
+      await updateLinks.mutateAsync(selectedLinks.map(link => ({ id: link.id, changes: changes(link) })));
+      toast({ title: "Links updated", description: success });
+    } catch (error) {
+      console.error('Error updating links:', error);
+      toast({
+        title: "Could not update links",
+        description: "None of the selected links were changed. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Extend from each link's current expiry, or from now for links that have already expired
+  const extendBy = (label: string, add: (date: Date) => Date) => {
+    const now = new Date();
+    update(
+      link => ({ expiresAt: add(link.expiresAt > now ? link.expiresAt : now) }),
+      `Extended ${count} link${count === 1 ? '' : 's'} by ${label}.`
+    );
+  };
+
+  // Adds the tag to every selected link, or removes it when they all have it already
+  const toggleTag = (name: string) => {
+    const allTagged = selectedLinks.every(link => link.tags?.includes(name));
+    update(
+      link => ({
+        tags: allTagged
+          ? (link.tags ?? []).filter(tag => tag !== name)
+          : [...new Set([...(link.tags ?? []), name])],
+      }),
+      `${allTagged ? 'Removed' : 'Added'} "${name}" ${allTagged ? 'from' : 'to'} ${count} link${count === 1 ? '' : 's'}.`
+    );
+  };
+
+  const shareWithPeers = () => {
+    const peers = p2pService.getConnections().filter(connection => connection.isConnected);
+    if (peers.length === 0) {
+      toast({
+        title: "No peers connected",
+        description: "Connect to a peer in the P2P Share tab first.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let sent = 0;
+    for (const peer of peers) {
+      for (const link of selectedLinks) {
+        if (p2pService.shareLink(peer.id, toP2PLink(link, tags))) sent++;
+      }
+    }
+    const total = count * peers.length;
+    if (sent === total) {
+      toast({
+        title: "Links shared",
+        description: `Sent ${count} link${count === 1 ? '' : 's'} to ${peers.length} peer${peers.length === 1 ? '' : 's'}.`,
+      });
+    } else {
+      toast({
+        title: "Some links were not shared",
+        description: `${sent} of ${total} shares went through. Please check the connections and try again.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteSelected = async () => {
+    if (await deleteWithUndo(selectedLinks.map(link => link.id))) {
+      onClear();
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 rounded-lg border bg-blue-50 p-2">
+      <span className="text-sm font-medium px-2">{count} selected</span>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2" disabled={updateLinks.isPending}>
+            <CalendarPlus className="h-4 w-4" />
+            Extend
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuLabel>Extend expiry by</DropdownMenuLabel>
+          {EXTEND_OPTIONS.map(({ label, add }) => (
+            <DropdownMenuItem key={label} onClick={() => extendBy(label, add)}>
+              {label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2" disabled={updateLinks.isPending}>
+            <Tag className="h-4 w-4" />
+            Tag
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuLabel>Toggle tag</DropdownMenuLabel>
+          {tags.length === 0 && (
+            <DropdownMenuItem disabled>Create tags when editing a link</DropdownMenuItem>
+          )}
+          {tags.map((tag) => (
+            <DropdownMenuCheckboxItem
+              key={tag.name}
+              checked={selectedLinks.every(link => link.tags?.includes(tag.name))}
+              onSelect={() => toggleTag(tag.name)}
+            >
+              <span className="h-2 w-2 rounded-full mr-2" style={{ backgroundColor: tag.color }} />
+              {tag.name}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ExportMenu links={selectedLinks} clicks={selectedClicks} />
+
+      <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={shareWithPeers}>
+        <Share2 className="h-4 w-4" />
+        Share
+      </Button>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="flex items-center gap-2 text-red-600 hover:text-red-700"
+        onClick={deleteSelected}
+        disabled={isDeleting}
+      >
+        <Trash2 className="h-4 w-4" />
+        Delete
+      </Button>
+
+      <Button variant="ghost" size="sm" className="ml-auto" onClick={onClear}>
+        <X className="h-4 w-4 mr-1" />
+        Clear
+      </Button>
+    </div>
+  );
+};
+
+export default BulkActionsBar;
@@ -0,0 +1,37 @@
+import { DetectedCode } from '@/lib/code-detection';
+
+interface CodeImagePreviewProps {
+  src: string;
+  codes: DetectedCode[];
+}
+
+// The uploaded image with a numbered box over every code that was found, matching the results list
+const CodeImagePreview = ({ src, codes }: CodeImagePreviewProps) => {
+  return (
+    <div className="relative inline-block">
+      <img
+        src={src}
+        alt="Uploaded"
+        className="max-w-full max-h-64 mx-auto rounded-lg shadow-md"
+      />
+      {codes.map((code, index) => code.box && (
+        <div
+          key={index}
+          className="absolute border-2 border-blue-500 bg-blue-500/10 rounded-sm pointer-events-none"
+          style={{
+            left: `${code.box.x * 100}%`,
+            top: `${code.box.y * 100}%`,
+            width: `${code.box.width * 100}%`,
+            height: `${code.box.height * 100}%`,
+          }}
+        >
+          <span className="absolute -top-2.5 -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-blue-600 text-[10px] font-semibold text-white">
+            {index + 1}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CodeImagePreview;
@@ -0,0 +1,67 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { TimePicker } from '@/components/ui/time-picker';
+import { CalendarIcon } from 'lucide-react';
+import { format, startOfDay } from 'date-fns';
+import { cn } from '@/lib/utils';
+
+interface DateTimeFieldProps {
+  label: string;
+  date?: Date;
+  setDate: (date: Date | undefined) => void;
+  required?: boolean;
+}
+
+const DateTimeField = ({ label, date, setDate, required }: DateTimeFieldProps) => {
+  return (
+    <>
+      <div className="space-y-2">
+        <Label>{label} Date{required && ' *'}</Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              className={cn(
+                "w-full justify-start text-left font-normal",
+                !date && "text-muted-foreground"
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {date ? format(date, "PPP") : "Pick a date"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={date}
+              onSelect={(selected) => {
+                if (selected) {
+                  const newDate = new Date(selected);
+                  if (date) {
+                    newDate.setHours(date.getHours(), date.getMinutes(), 0, 0);
+                  } else {
+                    newDate.setHours(12, 0, 0, 0);
+                  }
+                  setDate(newDate);
+                } else {
+                  setDate(undefined);
+                }
+              }}
+              disabled={(day) => day < startOfDay(new Date())}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{label} Time{required && ' *'}</Label>
+        <TimePicker date={date} setDate={setDate} />
+      </div>
+    </>
+  );
+};
+
+export default DateTimeField;
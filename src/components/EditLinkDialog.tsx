@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { History } from 'lucide-react';
+import { addDays, addHours, format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useUpdateLink } from '@/hooks/use-links';
+import { AuditedField, Link, LinkUpdate } from '@/lib/link-repository';
+import { hashPassword } from '@/lib/link-password';
+import { normalizeFolder } from '@/lib/link-tags';
+import { validateDestination } from '@/lib/url-validation';
+import { getLinkStatus, getScheduleError } from '@/lib/link-status';
+import { DEFAULT_REDIRECT_MODE, getRedirectSettings, REDIRECT_MODE_LABELS, RedirectMode } from '@/lib/redirect-mode';
+import LinkFormFields, { LinkFormValues } from '@/components/LinkFormFields';
+
+interface EditLinkDialogProps {
+  link: Link | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FIELD_LABELS: Record<AuditedField, string> = {
+  title: 'Title',
+  description: 'Description',
+  originalUrl: 'Destination',
+  activatesAt: 'Activation',
+  expiresAt: 'Expiry',
+  maxClicks: 'Visit limit',
+  remindBefore: 'Reminder (hours before expiry)',
+  redirectMode: 'Redirect',
+  redirectDelay: 'Redirect delay',
+  folder: 'Folder',
+  tags: 'Tags',
+};
+
+const formatValue = (value?: string | number | Date) => {
+  if (value instanceof Date) return format(value, 'MMM d, yyyy HH:mm');
+  if (typeof value === 'number') return value.toString();
+  if (value && value in REDIRECT_MODE_LABELS) return REDIRECT_MODE_LABELS[value as RedirectMode];
+  return value || '(empty)';
+};
+
+const EditLinkDialog = ({ link, onOpenChange }: EditLinkDialogProps) => {
+  const [form, setForm] = useState<LinkFormValues>({
+    title: '',
+    originalUrl: '',
+    description: '',
+    redirectMode: DEFAULT_REDIRECT_MODE,
+    tags: [],
+    folder: '',
+  });
+  const [removePassword, setRemovePassword] = useState(false);
+  const updateLink = useUpdateLink();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (link) {
+      setForm({
+        title: link.title,
+        originalUrl: link.originalUrl,
+        description: link.description ?? '',
+        activatesAt: link.activatesAt,
+        expiresAt: link.expiresAt,
+        maxClicks: link.maxClicks,
+        remindBefore: link.remindBefore,
+        password: '',
+        redirectMode: getRedirectSettings(link).mode,
+        redirectDelay: link.redirectDelay,
+        tags: link.tags ?? [],
+        folder: link.folder ?? '',
+      });
+      setRemovePassword(false);
+    }
+  }, [link]);
+
+  // Extend from the current expiry, or from now if the link has already expired
+  const extendBy = (add: (date: Date) => Date) => {
+    const now = new Date();
+    const base = form.expiresAt && form.expiresAt > now ? form.expiresAt : now;
+    setForm(prev => ({ ...prev, expiresAt: add(base) }));
+  };
+
+  const saveChanges = async () => {
+    if (!link) return;
+
+    const { title, originalUrl, description, activatesAt, expiresAt, maxClicks, remindBefore, password, redirectMode, redirectDelay, tags, folder } = form;
+    if (!originalUrl || !title || !expiresAt) {
+      toast({
+        title: "Missing required fields",
+        description: "Please fill in all required fields.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const destination = validateDestination(originalUrl);
+    if (destination.errors.length > 0) {
+      toast({
+        title: "Invalid destination URL",
+        description: destination.errors[0],
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const scheduleError = getScheduleError(activatesAt, expiresAt);
+    if (scheduleError) {
+      toast({
+        title: "Invalid schedule",
+        description: scheduleError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const wasInactive = getLinkStatus(link) !== 'active';
+    let updated: Link;
+
+    const changes: LinkUpdate = {
+      title,
+      originalUrl: destination.url!,
+      description,
+      activatesAt,
+      expiresAt,
+      maxClicks,
+      remindBefore,
+      tags,
+      folder: normalizeFolder(folder),
+    };
+    if (removePassword) {
+      changes.password = undefined;
+    } else if (password) {
+      changes.password = await hashPassword(password);
+    }
+
+    // Only touch the redirect settings when they really change, so older links
+    // without a stored mode do not pick up a spurious history entry
+    const current = getRedirectSettings(link);
+    const delay = redirectMode === 'timed' ? getRedirectSettings(form).delay : undefined;
+    if (redirectMode !== current.mode || (redirectMode === 'timed' && delay !== current.delay)) {
+      changes.redirectMode = redirectMode;
+      changes.redirectDelay = delay;
+    }
+
+    try {
+      updated = await updateLink.mutateAsync({ id: link.id, changes });
+    } catch (error) {
+      console.error('Error updating link:', error);
+      toast({
+        title: "Could not update link",
+        description: "Your changes could not be saved. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const revived = wasInactive && getLinkStatus(updated) === 'active';
+    onOpenChange(false);
+    toast({
+      title: revived ? "Link revived" : "Link updated",
+      description: revived
+        ? "The link is active again and can be visited."
+        : "Your changes have been saved.",
+    });
+  };
+
+  const history = [...(link?.history ?? [])].reverse();
+
+  return (
+    <Dialog open={!!link} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Link</DialogTitle>
+          <DialogDescription>
+            Change the details or expiry of {link ? `/l/${link.shortUrl}` : 'this link'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <LinkFormFields
+            values={form}
+            onChange={(changes) => setForm(prev => ({ ...prev, ...changes }))}
+            idPrefix="edit-"
+            passwordHint={link?.password
+              ? 'Leave empty to keep the current password'
+              : 'Visitors must enter this password before being redirected'}
+          />
+
+          {link?.password && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="edit-remove-password">Remove password protection</Label>
+              <Switch
+                id="edit-remove-password"
+                checked={removePassword}
+                onCheckedChange={setRemovePassword}
+              />
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-600">Extend by:</span>
+            <Button variant="outline" size="sm" onClick={() => extendBy(date => addHours(date, 1))}>
+              1 hour
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => extendBy(date => addDays(date, 1))}>
+              1 day
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => extendBy(date => addDays(date, 7))}>
+              7 days
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Change History
+            </p>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">No changes since this link was created.</p>
+            ) : (
+              <ScrollArea className="h-40 rounded border p-3">
+                <div className="space-y-3">
+                  {history.map((entry) => (
+                    <div key={entry.changedAt.getTime()} className="text-sm">
+                      <p className="text-xs text-gray-500 mb-1">
+                        {format(entry.changedAt, 'MMM d, yyyy HH:mm')}
+                      </p>
+                      {entry.changes.map((change) => (
+                        <p key={change.field} className="break-all">
+                          <Badge variant="outline" className="mr-2">{FIELD_LABELS[change.field]}</Badge>
+                          <span className="text-gray-500 line-through">{formatValue(change.from)}</span>
+                          {' → '}
+                          <span>{formatValue(change.to)}</span>
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={saveChanges} disabled={updateLink.isPending}>
+            {updateLink.isPending ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditLinkDialog;
@@ -0,0 +1,37 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Bell, BellOff } from 'lucide-react';
+import { notificationsSupported, registerReminderWorker, requestNotificationPermission } from '@/lib/link-reminders';
+
+// Shown until the browser allows notifications; reminders fall back to in-app toasts until then
+const EnableNotificationsButton = () => {
+  const [permission, setPermission] = useState<NotificationPermission>(() =>
+    notificationsSupported() ? Notification.permission : 'denied'
+  );
+
+  if (!notificationsSupported() || permission === 'granted') return null;
+
+  if (permission === 'denied') {
+    return (
+      <p className="flex items-center gap-1 text-xs text-gray-500">
+        <BellOff className="h-3 w-3" />
+        Notifications are blocked, so reminders only show while the app is open
+      </p>
+    );
+  }
+
+  const enable = async () => {
+    const result = await requestNotificationPermission();
+    if (result === 'granted') await registerReminderWorker();
+    setPermission(result);
+  };
+
+  return (
+    <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs gap-1" onClick={enable}>
+      <Bell className="h-3 w-3" />
+      Allow browser notifications for reminders
+    </Button>
+  );
+};
+
+export default EnableNotificationsButton;
@@ -0,0 +1,68 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlarmClock, CalendarPlus } from 'lucide-react';
+import { useNow } from '@/hooks/use-now';
+import { useExtendLink } from '@/hooks/use-expiry-reminders';
+import { Link } from '@/lib/link-repository';
+import { isExpiringSoon } from '@/lib/link-status';
+import { getReminderAt, REMINDER_EXTEND_HOURS } from '@/lib/link-reminders';
+import LinkStatusBadge from '@/components/LinkStatusBadge';
+import EnableNotificationsButton from '@/components/EnableNotificationsButton';
+
+interface ExpiringSoonPanelProps {
+  links: Link[];
+}
+
+const isReminderDue = (link: Link, now: Date) => {
+  const reminderAt = getReminderAt(link);
+  return reminderAt !== undefined && reminderAt.getTime() <= now.getTime();
+};
+
+// Links inside the expiring-soon window or past their reminder time, soonest first
+const ExpiringSoonPanel = ({ links }: ExpiringSoonPanelProps) => {
+  const now = useNow(1000);
+  const { extendLink, isExtending } = useExtendLink();
+
+  const expiring = links
+    .filter(link => link.expiresAt > now && (isExpiringSoon(link, now) || isReminderDue(link, now)))
+    .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+
+  if (expiring.length === 0) return null;
+
+  return (
+    <Card className="border-amber-200 bg-amber-50/50">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <AlarmClock className="h-5 w-5 text-amber-600" />
+          Expiring Soon
+        </CardTitle>
+        <CardDescription>
+          {expiring.length} link{expiring.length === 1 ? '' : 's'} will stop working shortly
+        </CardDescription>
+        {expiring.some(link => link.remindBefore) && <EnableNotificationsButton />}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {expiring.map((link) => (
+          <div key={link.id} className="flex items-center justify-between gap-2 rounded-md border bg-white p-2">
+            <div className="flex min-w-0 items-center gap-2">
+              <span className="truncate text-sm font-medium">{link.title}</span>
+              <LinkStatusBadge link={link} />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex shrink-0 items-center gap-1"
+              onClick={() => extendLink(link)}
+              disabled={isExtending}
+            >
+              <CalendarPlus className="h-4 w-4" />
+              Extend {REMINDER_EXTEND_HOURS}h
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExpiringSoonPanel;
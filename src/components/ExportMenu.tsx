@@ -0,0 +1,135 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Archive, Download, FileJson, FileSpreadsheet, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useRestoreBackup, useSnapshot } from '@/hooks/use-links';
+import { ClickEvent, Link } from '@/lib/link-repository';
+import {
+  createBackup,
+  downloadFile,
+  exportClicksCsv,
+  exportClicksJson,
+  exportFileName,
+  exportLinksCsv,
+  exportLinksJson,
+  parseBackup,
+} from '@/lib/link-export';
+
+interface ExportMenuProps {
+  links: Link[];
+  clicks: ClickEvent[];
+  // Offer the full backup and restore entries as well as the plain exports
+  includeBackup?: boolean;
+}
+
+const ExportMenu = ({ links, clicks, includeBackup }: ExportMenuProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const snapshot = useSnapshot();
+  const restoreBackup = useRestoreBackup();
+  const { toast } = useToast();
+
+  const downloadBackup = async () => {
+    try {
+      const data = await snapshot.mutateAsync();
+      downloadFile(createBackup(data), exportFileName('backup', 'json'), 'application/json');
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      toast({
+        title: "Backup failed",
+        description: "Your links could not be read. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRestore = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const backup = parseBackup(await file.text());
+      const result = await restoreBackup.mutateAsync(backup);
+      toast({
+        title: "Backup restored",
+        description: `${result.restored} link${result.restored === 1 ? '' : 's'} and ${result.clicks} click${result.clicks === 1 ? '' : 's'} restored`
+          + (result.skipped.length ? `, ${result.skipped.length} skipped because their short URL is already in use.` : '.'),
+      });
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : "The backup could not be restored.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Links ({links.length})</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => downloadFile(exportLinksCsv(links), exportFileName('links', 'csv'), 'text/csv')}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Links as CSV
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => downloadFile(exportLinksJson(links), exportFileName('links', 'json'), 'application/json')}>
+            <FileJson className="h-4 w-4 mr-2" />
+            Links as JSON
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Clicks ({clicks.length})</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => downloadFile(exportClicksCsv(clicks, links), exportFileName('clicks', 'csv'), 'text/csv')}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Clicks as CSV
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => downloadFile(exportClicksJson(clicks, links), exportFileName('clicks', 'json'), 'application/json')}>
+            <FileJson className="h-4 w-4 mr-2" />
+            Clicks as JSON
+          </DropdownMenuItem>
+          {includeBackup && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Backup</DropdownMenuLabel>
+              <DropdownMenuItem onClick={downloadBackup} disabled={snapshot.isPending}>
+                <Archive className="h-4 w-4 mr-2" />
+                Download full backup
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => fileInputRef.current?.click()} disabled={restoreBackup.isPending}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore from backup...
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {includeBackup && (
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleRestore}
+        />
+      )}
+    </>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState } from 'react';
+import { Crop, RotateCcw, RotateCw, X, ZoomIn } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/hooks/use-toast';
+import { CodeBox } from '@/lib/code-detection';
+import { renderRegion, Rotation, rotateBy } from '@/lib/image-region';
+
+interface ImageRegionSelectorProps {
+  image: Blob;
+  onScan: (region: Blob) => void;
+  onCancel: () => void;
+}
+
+// Anything smaller is a stray click rather than a selection
+const MIN_SELECTION = 0.02;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Zoom in, turn the image upright and drag a rectangle around the code to scan just that part
+const ImageRegionSelector = ({ image, onScan, onCancel }: ImageRegionSelectorProps) => {
+  const [rotation, setRotation] = useState<Rotation>(0);
+  const [zoom, setZoom] = useState(1);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [selection, setSelection] = useState<CodeBox | null>(null);
+  const [isCropping, setIsCropping] = useState(false);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const { toast } = useToast();
+
+  // The selection is drawn over the turned image, so show it turned rather than rotating it with CSS
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+    (rotation === 0 ? Promise.resolve(image) : renderRegion(image, rotation, null))
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPreview(url);
+      })
+      .catch(error => console.error('Error rotating image:', error));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [image, rotation]);
+
+  const rotate = (degrees: 90 | -90) => {
+    setRotation(current => rotateBy(current, degrees));
+    setSelection(null);
+  };
+
+  const toPoint = (event: React.PointerEvent) => {
+    const rect = frameRef.current.getBoundingClientRect();
+    return { x: clamp((event.clientX - rect.left) / rect.width), y: clamp((event.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = toPoint(event);
+    setSelection(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const point = toPoint(event);
+    setSelection({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    setSelection(current => (current && current.width >= MIN_SELECTION && current.height >= MIN_SELECTION ? current : null));
+  };
+
+  // Without a selection this scans the whole image as turned
+  const scan = async () => {
+    setIsCropping(true);
+    try {
+      onScan(await renderRegion(image, rotation, selection));
+    } catch (error) {
+      console.error('Error cropping image:', error);
+      toast({
+        title: "Crop Failed",
+        description: "Could not cut out the selected region. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCropping(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-96 overflow-auto rounded-lg border bg-gray-50">
+        {preview && (
+          <div
+            ref={frameRef}
+            className="relative mx-auto cursor-crosshair touch-none select-none"
+            style={{ width: `${zoom * 100}%` }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <img src={preview} alt="Uploaded" className="block w-full" draggable={false} />
+            {selection && (
+              <div
+                className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none"
+                style={{
+                  left: `${selection.x * 100}%`,
+                  top: `${selection.y * 100}%`,
+                  width: `${selection.width * 100}%`,
+                  height: `${selection.height * 100}%`,
+                  // Dim everything outside the selection
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.35)',
+                }}
+              />
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <Button onClick={() => rotate(-90)} variant="outline" size="sm" title="Rotate left">
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+        <Button onClick={() => rotate(90)} variant="outline" size="sm" title="Rotate right">
+          <RotateCw className="w-4 h-4" />
+        </Button>
+        <div className="flex items-center gap-2 w-40">
+          <ZoomIn className="w-4 h-4 text-gray-500 shrink-0" />
+          <Slider
+            value={[zoom]}
+            min={1}
+            max={4}
+            step={0.25}
+            onValueChange={([value]) => setZoom(value)}
+            aria-label="Zoom"
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {selection ? 'Drag again to change the region.' : 'Drag over the image to select the region with the code.'}
+      </p>
+
+      <div className="flex gap-2 justify-center">
+        <Button
+          onClick={scan}
+          size="sm"
+          className="gap-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+          disabled={isCropping || !preview}
+        >
+          <Crop className="w-4 h-4" />
+          {selection ? 'Scan Region' : 'Scan Whole Image'}
+        </Button>
+        <Button onClick={onCancel} variant="outline" size="sm" className="gap-2">
+          <X className="w-4 h-4" />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ImageRegionSelector;
@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useImportLinks } from '@/hooks/use-links';
+import { detectFormat, ImportReport, ImportRow, MAX_IMPORT_ROWS, parseImport, TAG_SEPARATOR } from '@/lib/link-import';
+
+interface ImportLinksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ImportLinksDialog = ({ open, onOpenChange }: ImportLinksDialogProps) => {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const importLinks = useImportLinks();
+  const { toast } = useToast();
+
+  const reset = () => {
+    setText('');
+    setFileName('');
+    setRows(null);
+    setParseError(null);
+    setReport(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const preview = (content: string, name: string) => {
+    setText(content);
+    setFileName(name);
+    setReport(null);
+    if (!content.trim()) {
+      setRows(null);
+      setParseError(null);
+      return;
+    }
+    try {
+      setRows(parseImport(content, detectFormat(name, content)));
+      setParseError(null);
+    } catch (error) {
+      setRows(null);
+      setParseError(error instanceof Error ? error.message : 'The file could not be read.');
+    }
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    preview(await file.text(), file.name);
+    event.target.value = '';
+  };
+
+  const validRows = rows?.filter(row => row.link) ?? [];
+
+  const runImport = async () => {
+    if (!rows || validRows.length === 0) return;
+
+    try {
+      const result = await importLinks.mutateAsync(rows);
+      setReport(result);
+      setRows(null);
+      toast({
+        title: "Import finished",
+        description: `${result.created.length} link${result.created.length === 1 ? '' : 's'} created, ${result.skipped.length} skipped.`,
+      });
+    } catch (error) {
+      console.error('Error importing links:', error);
+      toast({
+        title: "Import failed",
+        description: "No links were created. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Links</DialogTitle>
+          <DialogDescription>
+            Create up to {MAX_IMPORT_ROWS} links at once from a CSV or JSON file with the columns
+            title, url, description, expiry, alias, folder and tags (separated by "{TAG_SEPARATOR}").
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm">
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              {report.created.length} link{report.created.length === 1 ? '' : 's'} created
+              {report.skipped.length > 0 && `, ${report.skipped.length} skipped`}
+            </div>
+            {report.skipped.length > 0 && (
+              <ScrollArea className="h-48 rounded border p-3">
+                <div className="space-y-2 text-sm">
+                  {report.skipped.map((skip) => (
+                    <p key={skip.line}>
+                      <Badge variant="outline" className="mr-2">Row {skip.line}</Badge>
+                      {skip.title && <span className="font-medium">{skip.title}: </span>}
+                      <span className="text-red-600">{skip.reason}</span>
+                    </p>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input id="import-file" type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileSelect} />
+              {fileName && <p className="text-xs text-gray-500">{fileName}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="import-text">Or paste the contents</Label>
+              <Textarea
+                id="import-text"
+                rows={4}
+                className="font-mono text-xs"
+                placeholder={'title,url,description,expiry,alias\nSpring sale,https://example.com/sale,,2030-04-01T09:00,spring-sale'}
+                value={text}
+                onChange={(e) => preview(e.target.value, '')}
+              />
+            </div>
+
+            {parseError && (
+              <p className="flex items-center gap-2 text-sm text-red-600">
+                <XCircle className="h-4 w-4" />
+                {parseError}
+              </p>
+            )}
+
+            {rows && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600">
+                  {validRows.length} of {rows.length} rows are ready to import
+                </p>
+                <ScrollArea className="h-64 rounded border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Row</TableHead>
+                        <TableHead>Title</TableHead>
+                        <TableHead>Destination</TableHead>
+                        <TableHead>Expiry</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map((row) => (
+                        <TableRow key={row.line}>
+                          <TableCell>{row.line}</TableCell>
+                          <TableCell className="max-w-[10rem] truncate">{String(row.raw.title ?? '')}</TableCell>
+                          <TableCell className="max-w-[14rem] truncate">{row.link?.url ?? String(row.raw.url ?? '')}</TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {row.link ? format(row.link.expiry, 'MMM d, yyyy HH:mm') : String(row.raw.expiry ?? '')}
+                          </TableCell>
+                          <TableCell>
+                            {row.link ? (
+                              <span className="flex items-center gap-1 text-green-600">
+                                <CheckCircle className="h-4 w-4" />
+                                {row.link.alias ? `/l/${row.link.alias}` : 'Ready'}
+                              </span>
+                            ) : (
+                              row.errors.map((error) => (
+                                <p key={error} className="text-xs text-red-600">{error}</p>
+                              ))
+                            )}
+                            {row.warnings.map((warning) => (
+                              <p key={warning} className="flex items-center gap-1 text-xs text-amber-600">
+                                <AlertTriangle className="h-3 w-3 shrink-0" />
+                                {warning}
+                              </p>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Import More
+              </Button>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={runImport} disabled={validRows.length === 0 || importLinks.isPending}>
+                {importLinks.isPending
+                  ? 'Importing...'
+                  : `Import ${validRows.length} Link${validRows.length === 1 ? '' : 's'}`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportLinksDialog;
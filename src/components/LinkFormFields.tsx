@@ -0,0 +1,241 @@
+import { ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DateTimeField from '@/components/DateTimeField';
+import TagPicker from '@/components/TagPicker';
+import EnableNotificationsButton from '@/components/EnableNotificationsButton';
+import { useLinks } from '@/hooks/use-links';
+import { getFolders } from '@/lib/link-tags';
+import { MAX_REMINDER_HOURS } from '@/lib/link-reminders';
+import {
+  DEFAULT_REDIRECT_DELAY,
+  MAX_REDIRECT_DELAY,
+  REDIRECT_MODE_DESCRIPTIONS,
+  REDIRECT_MODE_LABELS,
+  REDIRECT_MODES,
+  RedirectMode,
+} from '@/lib/redirect-mode';
+import { validateDestination } from '@/lib/url-validation';
+import { cn } from '@/lib/utils';
+
+export interface LinkFormValues {
+  title: string;
+  originalUrl: string;
+  description: string;
+  activatesAt?: Date;
+  expiresAt?: Date;
+  maxClicks?: number;
+  remindBefore?: number;
+  password?: string;
+  redirectMode: RedirectMode;
+  redirectDelay?: number;
+  tags: string[];
+  folder: string;
+}
+
+interface LinkFormFieldsProps {
+  values: LinkFormValues;
+  onChange: (changes: Partial<LinkFormValues>) => void;
+  // Keeps input ids unique when the form is rendered more than once on a page
+  idPrefix?: string;
+  // Extra fields shown between the destination URL and the description
+  children?: ReactNode;
+  passwordHint?: string;
+}
+
+const LinkFormFields = ({
+  values,
+  onChange,
+  idPrefix = '',
+  children,
+  passwordHint = 'Visitors must enter this password before being redirected',
+}: LinkFormFieldsProps) => {
+  const destination = values.originalUrl.trim() ? validateDestination(values.originalUrl) : null;
+  const { data: links = [] } = useLinks();
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}title`}>Title *</Label>
+        <Input
+          id={`${idPrefix}title`}
+          placeholder="Enter link title"
+          value={values.title}
+          onChange={(e) => onChange({ title: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}url`}>Original URL *</Label>
+        <Input
+          id={`${idPrefix}url`}
+          type="url"
+          placeholder="https://example.com"
+          value={values.originalUrl}
+          onChange={(e) => onChange({ originalUrl: e.target.value })}
+          className={cn(destination?.errors.length && "border-red-500")}
+        />
+        {destination?.errors.map((error) => (
+          <p key={error} className="text-xs text-red-600">{error}</p>
+        ))}
+        {destination?.warnings.map((warning) => (
+          <p key={warning} className="text-xs text-amber-600">{warning}</p>
+        ))}
+      </div>
+
+      {children}
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}description`}>Description</Label>
+        <Textarea
+          id={`${idPrefix}description`}
+          placeholder="Optional description"
+          value={values.description}
+          onChange={(e) => onChange({ description: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}folder`}>Folder</Label>
+        <Input
+          id={`${idPrefix}folder`}
+          placeholder="Optional, e.g. Spring campaign"
+          list={`${idPrefix}folder-options`}
+          value={values.folder}
+          onChange={(e) => onChange({ folder: e.target.value })}
+        />
+        <datalist id={`${idPrefix}folder-options`}>
+          {getFolders(links).map((folder) => (
+            <option key={folder} value={folder} />
+          ))}
+        </datalist>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Tags</Label>
+        <TagPicker value={values.tags} onChange={(tags) => onChange({ tags })} />
+      </div>
+
+      <DateTimeField
+        label="Activation"
+        date={values.activatesAt}
+        setDate={(activatesAt) => onChange({ activatesAt })}
+      />
+      {values.activatesAt ? (
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500">The link opens at this time</p>
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onChange({ activatesAt: undefined })}>
+            Activate immediately
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">Leave empty to activate the link immediately</p>
+      )}
+
+      <DateTimeField
+        label="Expiry"
+        date={values.expiresAt}
+        setDate={(expiresAt) => onChange({ expiresAt })}
+        required
+      />
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}remind-before`}>Reminder (hours before expiry)</Label>
+        <Input
+          id={`${idPrefix}remind-before`}
+          type="number"
+          min={1}
+          max={MAX_REMINDER_HOURS}
+          placeholder="No reminder"
+          value={values.remindBefore ?? ''}
+          onChange={(e) => {
+            const remindBefore = parseInt(e.target.value, 10);
+            onChange({ remindBefore: remindBefore > 0 ? Math.min(remindBefore, MAX_REMINDER_HOURS) : undefined });
+          }}
+        />
+        {values.remindBefore ? <EnableNotificationsButton /> : (
+          <p className="text-xs text-gray-500">Get a notification before the link stops working</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor={`${idPrefix}single-use`}>Single use</Label>
+          <Switch
+            id={`${idPrefix}single-use`}
+            checked={values.maxClicks === 1}
+            onCheckedChange={(checked) => onChange({ maxClicks: checked ? 1 : undefined })}
+          />
+        </div>
+        <Label htmlFor={`${idPrefix}max-clicks`}>Visit Limit</Label>
+        <Input
+          id={`${idPrefix}max-clicks`}
+          type="number"
+          min={1}
+          placeholder="Unlimited"
+          value={values.maxClicks ?? ''}
+          onChange={(e) => {
+            const maxClicks = parseInt(e.target.value, 10);
+            onChange({ maxClicks: maxClicks > 0 ? maxClicks : undefined });
+          }}
+        />
+        <p className="text-xs text-gray-500">The link stops working after this many visits</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}password`}>Password</Label>
+        <Input
+          id={`${idPrefix}password`}
+          type="password"
+          autoComplete="new-password"
+          placeholder="Optional"
+          value={values.password ?? ''}
+          onChange={(e) => onChange({ password: e.target.value })}
+        />
+        <p className="text-xs text-gray-500">{passwordHint}</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}redirect-mode`}>Redirect Mode</Label>
+        <Select
+          value={values.redirectMode}
+          onValueChange={(redirectMode: RedirectMode) => onChange({ redirectMode })}
+        >
+          <SelectTrigger id={`${idPrefix}redirect-mode`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REDIRECT_MODES.map((mode) => (
+              <SelectItem key={mode} value={mode}>{REDIRECT_MODE_LABELS[mode]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-500">{REDIRECT_MODE_DESCRIPTIONS[values.redirectMode]}</p>
+      </div>
+
+      {values.redirectMode === 'timed' && (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}redirect-delay`}>Countdown (seconds)</Label>
+          <Input
+            id={`${idPrefix}redirect-delay`}
+            type="number"
+            min={1}
+            max={MAX_REDIRECT_DELAY}
+            placeholder={DEFAULT_REDIRECT_DELAY.toString()}
+            value={values.redirectDelay ?? ''}
+            onChange={(e) => {
+              const redirectDelay = parseInt(e.target.value, 10);
+              onChange({ redirectDelay: redirectDelay > 0 ? redirectDelay : undefined });
+            }}
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default LinkFormFields;
@@ -0,0 +1,40 @@
+import { useLocation } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { useLifecycleEvents, useLifecycleSweeper } from '@/hooks/use-link-lifecycle';
+import { useExpiryReminders } from '@/hooks/use-expiry-reminders';
+
+// Mounted on its own so the reminders can be left out of visitor pages
+const ExpiryReminders = () => {
+  useExpiryReminders();
+  return null;
+};
+
+// Runs the expiry scheduler for the whole app, sends expiry reminders and tells the owner
+// when a link goes live or expires
+const LinkLifecycleSweeper = () => {
+  const location = useLocation();
+  const { toast } = useToast();
+  // Visitors following a short link do not need to hear about the owner's other links
+  const isVisitorPage = location.pathname.startsWith('/l/');
+  useLifecycleSweeper();
+
+  useLifecycleEvents((event) => {
+    if (isVisitorPage) return;
+
+    if (event.type === 'activated') {
+      toast({
+        title: "Link is now live",
+        description: `"${event.link.title}" has started redirecting visitors.`,
+      });
+    } else {
+      toast({
+        title: "Link expired",
+        description: `"${event.link.title}" no longer redirects visitors.`,
+      });
+    }
+  }, ['activated', 'expired']);
+
+  return isVisitorPage ? null : <ExpiryReminders />;
+};
+
+export default LinkLifecycleSweeper;
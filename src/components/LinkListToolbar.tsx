@@ -0,0 +1,80 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Search, X } from 'lucide-react';
+import { LINK_SORT_LABELS, LinkQuery, LinkSortKey } from '@/lib/link-query';
+import { LinkStatus, STATUS_LABELS } from '@/lib/link-status';
+import { LinkTag } from '@/lib/link-tags';
+import TagFolderFilters from '@/components/TagFolderFilters';
+
+interface LinkListToolbarProps {
+  query: LinkQuery;
+  onChange: (changes: Partial<LinkQuery>) => void;
+  tags: LinkTag[];
+  folders: string[];
+}
+
+const LinkListToolbar = ({ query, onChange, tags, folders }: LinkListToolbarProps) => {
+  return (
+    <div className="flex flex-col sm:flex-row sm:flex-wrap gap-2 mb-4">
+      <div className="relative flex-1 sm:min-w-[14rem]">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+        <Input
+          placeholder="Search title, URL, alias or description"
+          value={query.search}
+          onChange={(e) => onChange({ search: e.target.value })}
+          className="pl-8 pr-8"
+        />
+        {query.search && (
+          <button
+            type="button"
+            onClick={() => onChange({ search: '' })}
+            className="absolute right-2.5 top-2.5 text-gray-400 hover:text-gray-600"
+            aria-label="Clear search"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      <Select value={query.status} onValueChange={(status: LinkStatus | 'all') => onChange({ status })}>
+        <SelectTrigger className="sm:w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All statuses</SelectItem>
+          {(Object.keys(STATUS_LABELS) as LinkStatus[]).map((status) => (
+            <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <TagFolderFilters tags={tags} folders={folders} tag={query.tag} folder={query.folder} onChange={onChange} />
+
+      <div className="flex gap-2">
+        <Select value={query.sort} onValueChange={(sort: LinkSortKey) => onChange({ sort })}>
+          <SelectTrigger className="sm:w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(LINK_SORT_LABELS) as LinkSortKey[]).map((sort) => (
+              <SelectItem key={sort} value={sort}>{LINK_SORT_LABELS[sort]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => onChange({ direction: query.direction === 'asc' ? 'desc' : 'asc' })}
+          title={query.direction === 'asc' ? 'Ascending' : 'Descending'}
+        >
+          {query.direction === 'asc'
+            ? <ArrowUpNarrowWide className="h-4 w-4" />
+            : <ArrowDownWideNarrow className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default LinkListToolbar;
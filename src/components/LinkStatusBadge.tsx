@@ -0,0 +1,38 @@
+import { Badge } from '@/components/ui/badge';
+import { useNow } from '@/hooks/use-now';
+import { Link } from '@/lib/link-repository';
+import { getLinkStatus, getTimeUntilActivation, getTimeUntilExpiry, isExpiringSoon, STATUS_LABELS } from '@/lib/link-status';
+
+interface LinkStatusBadgeProps {
+  link: Link;
+}
+
+// Ticks on its own so the countdown stays current without re-rendering the whole list
+const LinkStatusBadge = ({ link }: LinkStatusBadgeProps) => {
+  const now = useNow(1000);
+  const status = getLinkStatus(link, now);
+
+  if (status === 'expired') {
+    return <Badge variant="destructive">Expired</Badge>;
+  }
+  if (status === 'exhausted') {
+    return <Badge variant="destructive">{STATUS_LABELS.exhausted}</Badge>;
+  }
+  if (status === 'scheduled') {
+    return (
+      <Badge className="bg-indigo-100 text-indigo-700 hover:bg-indigo-100">
+        Scheduled · opens in {getTimeUntilActivation(link, now)}
+      </Badge>
+    );
+  }
+  if (isExpiringSoon(link, now)) {
+    return (
+      <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100">
+        {getTimeUntilExpiry(link.expiresAt, now)}
+      </Badge>
+    );
+  }
+  return <Badge variant="secondary">{getTimeUntilExpiry(link.expiresAt, now)}</Badge>;
+};
+
+export default LinkStatusBadge;
@@ -0,0 +1,65 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { getPageNumbers } from '@/lib/link-query';
+import { cn } from '@/lib/utils';
+
+interface ListPaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+const ListPagination = ({ page, pageCount, onPageChange }: ListPaginationProps) => {
+  if (pageCount <= 1) return null;
+
+  // The pagination parts render anchors, so keep them from navigating
+  const goTo = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goTo(page - 1)}
+            aria-disabled={page === 1}
+            className={cn(page === 1 && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+        {getPageNumbers(page, pageCount).map((number, index) => (
+          <PaginationItem key={number ?? `gap-${index}`}>
+            {number === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={number === page} onClick={goTo(number)}>
+                {number}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goTo(page + 1)}
+            aria-disabled={page === pageCount}
+            className={cn(page === pageCount && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
+
+export default ListPagination;
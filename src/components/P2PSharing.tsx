@@ -17,7 +17,7 @@ interface P2PSharingProps {
 }
 
 const P2PSharing = ({ links, onLinkReceived }: P2PSharingProps) => {
-  const [connections, setConnections] = useState<P2PConnection[]>([]);
+  const [connections, setConnections] = useState<P2PConnection[]>(() => p2pService.getConnections());
   const [connectionCode, setConnectionCode] = useState('');
   const [selectedLink, setSelectedLink] = useState<string>('');
   const [isCreatingConnection, setIsCreatingConnection] = useState(false);
@@ -37,9 +37,12 @@ const P2PSharing = ({ links, onLinkReceived }: P2PSharingProps) => {
       );
     });
 
-    // Cleanup on unmount
+    // Connections outlive this tab so links can be shared from the bulk actions bar;
+    // they are closed when the page unloads
+    const closeConnections = () => p2pService.destroy();
+    window.addEventListener('beforeunload', closeConnections);
     return () => {
-      p2pService.destroy();
+      window.removeEventListener('beforeunload', closeConnections);
     };
   }, [onLinkReceived]);
 
@@ -1,26 +1,36 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Upload, Camera, Copy, CheckCircle, AlertCircle, X, CameraOff, QrCode, Download, Scan, FileText, ExternalLink } from 'lucide-react';
+import { Upload, Camera, Copy, CheckCircle, AlertCircle, X, CameraOff, QrCode, Download, Scan, FileText, ExternalLink, FolderOpen, Crop, Undo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
+import { useBatchScan } from '@/hooks/use-batch-scan';
 import QrScanner from 'qr-scanner';
-import { BrowserMultiFormatReader } from '@zxing/library';
 import QRCode from 'qrcode';
+import { DetectedCode } from '@/lib/code-detection';
+import { decodePool, DecodeCancelledError, DecodeTimeoutError } from '@/lib/decode-pool';
+import { collectDroppedFiles, isImageFile } from '@/lib/batch-scan';
+import CodeImagePreview from '@/components/CodeImagePreview';
+import ImageRegionSelector from '@/components/ImageRegionSelector';
+import BatchScanResults from '@/components/BatchScanResults';
 
-interface ScannedResult {
-  data: string;
+interface ScannedResult extends DetectedCode {
   timestamp: Date;
-  format: string;
 }
 
 const QRScanner = () => {
   const [activeTab, setActiveTab] = useState<'scan' | 'generate'>('scan');
   const [isDragOver, setIsDragOver] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
-  const [scanResult, setScanResult] = useState<ScannedResult | null>(null);
+  const [scanResults, setScanResults] = useState<ScannedResult[]>([]);
+  const [findAllCodes, setFindAllCodes] = useState(false);
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  // The whole uploaded image, kept while a cropped region of it is being scanned
+  const [fullImage, setFullImage] = useState<File | null>(null);
+  const [isRegion, setIsRegion] = useState(false);
+  const [isSelectingRegion, setIsSelectingRegion] = useState(false);
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [cameraError, setCameraError] = useState<string | null>(null);
   const [qrText, setQrText] = useState('');
@@ -28,9 +38,11 @@ const QRScanner = () => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [filePath, setFilePath] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const qrScannerRef = useRef<QrScanner | null>(null);
-  const barcodeReader = useRef<BrowserMultiFormatReader | null>(null);
+  const scanControllerRef = useRef<AbortController | null>(null);
+  const batchScan = useBatchScan();
   const { toast } = useToast();
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -43,78 +55,107 @@ const QRScanner = () => {
     setIsDragOver(false);
   }, []);
 
-  const scanCode = async (file: File) => {
+  const scanCode = async (file: File, region = false) => {
+    setIsSelectingRegion(false);
+    setIsRegion(region);
+    if (!region) setFullImage(file);
+    scanControllerRef.current?.abort();
+    const controller = new AbortController();
+    scanControllerRef.current = controller;
     setIsScanning(true);
     try {
       const imageUrl = URL.createObjectURL(file);
       setUploadedImage(imageUrl);
-      
-      // Try QR code scanning first
-      try {
-        const qrResult = await QrScanner.scanImage(file, {
-          returnDetailedScanResult: true,
-        });
-        
-        setScanResult({
-          data: qrResult.data,
-          timestamp: new Date(),
-          format: 'QR Code'
+      setScanResults([]);
+
+      // With Find every code on, look for all of them, e.g. on a shipping label
+      const codes = await decodePool.decode(file, { multiple: findAllCodes, signal: controller.signal });
+      if (codes.length === 0) {
+        throw new Error('No code detected');
+      }
+
+      const timestamp = new Date();
+      setScanResults(codes.map(code => ({ ...code, timestamp })));
+      if (findAllCodes) {
+        toast({
+          title: codes.length === 1 ? "1 Code Detected!" : `${codes.length} Codes Detected!`,
+          description: "Each code is numbered on the image and listed in the results.",
         });
-        
+      } else if (codes[0].format === 'QR Code') {
         toast({
           title: "QR Code Detected!",
           description: "Successfully extracted data from the QR code.",
         });
-        return;
-      } catch (qrError) {
-        console.log('QR scanning failed, trying barcode...');
-      }
-      
-      // If QR fails, try barcode scanning
-      try {
-        if (!barcodeReader.current) {
-          barcodeReader.current = new BrowserMultiFormatReader();
-        }
-        
-        const img = new Image();
-        img.crossOrigin = 'anonymous';
-        img.src = imageUrl;
-        
-        await new Promise((resolve, reject) => {
-          img.onload = resolve;
-          img.onerror = reject;
-        });
-        
-        const barcodeResult = await barcodeReader.current.decodeFromImageElement(img);
-        
-        setScanResult({
-          data: barcodeResult.getText(),
-          timestamp: new Date(),
-          format: barcodeResult.getBarcodeFormat().toString()
-        });
-        
+      } else {
         toast({
           title: "Barcode Detected!",
           description: "Successfully extracted data from the barcode.",
         });
-        return;
-      } catch (barcodeError) {
-        console.log('Barcode scanning failed:', barcodeError);
       }
-      
-      throw new Error('No code detected');
     } catch (error) {
+      if (error instanceof DecodeCancelledError) return;
       console.error('Code scanning error:', error);
+      if (error instanceof DecodeTimeoutError) {
+        toast({
+          title: "Scan Timed Out",
+          description: `${error.message}. Try a smaller or sharper image.`,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "No Code Found",
         description: "Could not detect a QR code or barcode in this image. Please try another image.",
         variant: "destructive",
       });
     } finally {
-      setIsScanning(false);
+      // A newer scan owns the overlay now
+      if (scanControllerRef.current === controller) {
+        scanControllerRef.current = null;
+        setIsScanning(false);
+      }
     }
   };
 
+  const cancelScan = () => {
+    scanControllerRef.current?.abort();
+  };
+
+  const scanRegion = (region: Blob) => {
+    scanCode(new File([region], 'region.png', { type: region.type }), true);
+  };
+
+  const scanFullImage = () => {
+    if (fullImage) scanCode(fullImage);
+  };
+
+  // More than one image goes through the batch queue instead of the single preview
+  const scanImages = (files: { file: File; path: string }[]) => {
+    const images = files.filter(({ file }) => isImageFile(file));
+    if (images.length === 0) {
+      toast({
+        title: "Invalid File Type",
+        description: "Please upload an image file (JPG, PNG, etc.)",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (images.length === 1 && files.length === 1) {
+      scanCode(images[0].file);
+      return;
+    }
+
+    batchScan.scanFiles(images, findAllCodes);
+    const skipped = files.length - images.length;
+    toast({
+      title: `Scanning ${images.length} image${images.length === 1 ? '' : 's'}`,
+      description: skipped > 0
+        ? `${skipped} file${skipped === 1 ? ' that is not an image was' : 's that are not images were'} skipped.`
+        : "Results appear in the batch table below as each image is read.",
+    });
+  };
+
   const loadFromFilePath = async () => {
     if (!filePath.trim()) {
       toast({
@@ -166,11 +207,11 @@ const QRScanner = () => {
           (result) => {
             console.log('Code detected:', result);
             
-            setScanResult({
+            setScanResults([{
               data: result.data,
               timestamp: new Date(),
               format: 'QR Code'
-            });
+            }]);
             
             toast({
               title: "QR Code Detected!",
@@ -267,38 +308,38 @@ const QRScanner = () => {
         qrScannerRef.current.stop();
         qrScannerRef.current.destroy();
       }
+      scanControllerRef.current?.abort();
     };
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  // A plain function so it always scans with the current options
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-    
-    const files = Array.from(e.dataTransfer.files);
-    const imageFile = files.find(file => file.type.startsWith('image/'));
-    
-    if (imageFile) {
-      scanCode(imageFile);
-    } else {
+
+    try {
+      scanImages(await collectDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      console.error('Error reading dropped files:', error);
       toast({
-        title: "Invalid File Type",
-        description: "Please upload an image file (JPG, PNG, etc.)",
+        title: "Could not read the drop",
+        description: "Some of the dropped files or folders could not be opened. Please try again.",
         variant: "destructive",
       });
     }
-  }, [toast]);
+  };
 
+  // Files chosen from a folder carry their path inside it
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      scanCode(file);
-    }
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    scanImages(files.map(file => ({ file, path: file.webkitRelativePath || file.name })));
   };
 
-  const copyToClipboard = async () => {
-    if (scanResult?.data) {
+  const copyToClipboard = async (data: string) => {
+    if (data) {
       try {
-        await navigator.clipboard.writeText(scanResult.data);
+        await navigator.clipboard.writeText(data);
         toast({
           title: "Copied!",
           description: "QR code data copied to clipboard.",
@@ -314,8 +355,12 @@ const QRScanner = () => {
   };
 
   const clearResults = () => {
-    setScanResult(null);
+    cancelScan();
+    setScanResults([]);
     setUploadedImage(null);
+    setFullImage(null);
+    setIsRegion(false);
+    setIsSelectingRegion(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -374,198 +419,275 @@ const QRScanner = () => {
         </div>
 
         {activeTab === 'scan' ? (
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-            {/* Scanner Area */}
-            <Card className="relative overflow-hidden lg:col-span-2">
-              <CardContent className="p-0">
-                {isCameraActive ? (
-                  <div className="relative">
-                    <video
-                      ref={videoRef}
-                      className="w-full h-64 object-cover rounded-t-lg"
-                      autoPlay
-                      playsInline
-                      muted
-                    />
-                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                      <div className="border-2 border-white rounded-lg w-48 h-48 opacity-70 shadow-lg"></div>
-                    </div>
-                    <div className="p-4 bg-gray-900 text-white text-center">
-                      <p className="mb-3">Point camera at QR code or barcode</p>
-                      <Button
-                        onClick={stopCamera}
-                        variant="outline"
-                        size="sm"
-                        className="gap-2 bg-white text-gray-900 hover:bg-gray-100"
-                      >
-                        <CameraOff className="w-4 h-4" />
-                        Stop Camera
-                      </Button>
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              {/* Scanner Area */}
+              <Card className="relative overflow-hidden lg:col-span-2">
+                <CardContent className="p-0">
+                  {isCameraActive ? (
+                    <div className="relative">
+                      <video
+                        ref={videoRef}
+                        className="w-full h-64 object-cover rounded-t-lg"
+                        autoPlay
+                        playsInline
+                        muted
+                      />
+                      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                        <div className="border-2 border-white rounded-lg w-48 h-48 opacity-70 shadow-lg"></div>
+                      </div>
+                      <div className="p-4 bg-gray-900 text-white text-center">
+                        <p className="mb-3">Point camera at QR code or barcode</p>
+                        <Button
+                          onClick={stopCamera}
+                          variant="outline"
+                          size="sm"
+                          className="gap-2 bg-white text-gray-900 hover:bg-gray-100"
+                        >
+                          <CameraOff className="w-4 h-4" />
+                          Stop Camera
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  <div
-                    className={`relative border-2 border-dashed rounded-lg transition-all duration-300 ${
-                      isDragOver
-                        ? 'border-blue-500 bg-blue-50'
-                        : 'border-gray-300 hover:border-gray-400'
-                    } ${isScanning ? 'pointer-events-none opacity-50' : ''}`}
-                    onDragOver={handleDragOver}
-                    onDragLeave={handleDragLeave}
-                    onDrop={handleDrop}
-                  >
-                    <div className="p-8 text-center">
-                      {uploadedImage ? (
-                        <div className="space-y-4">
-                          <img
-                            src={uploadedImage}
-                            alt="Uploaded"
-                            className="max-w-full max-h-64 mx-auto rounded-lg shadow-md"
+                  ) : (
+                    <div
+                      className={`relative border-2 border-dashed rounded-lg transition-all duration-300 ${
+                        isDragOver
+                          ? 'border-blue-500 bg-blue-50'
+                          : 'border-gray-300 hover:border-gray-400'
+                      } ${isScanning ? 'pointer-events-none opacity-50' : ''}`}
+                      onDragOver={handleDragOver}
+                      onDragLeave={handleDragLeave}
+                      onDrop={handleDrop}
+                    >
+                      <div className="p-8 text-center">
+                        {isSelectingRegion && fullImage ? (
+                          <ImageRegionSelector
+                            image={fullImage}
+                            onScan={scanRegion}
+                            onCancel={() => setIsSelectingRegion(false)}
                           />
-                          <div className="flex gap-2 justify-center">
-                            <Button
-                              onClick={clearResults}
-                              variant="outline"
-                              size="sm"
-                              className="gap-2"
-                            >
-                              <X className="w-4 h-4" />
-                              Clear
-                            </Button>
-                          </div>
-                        </div>
-                      ) : (
-                        <>
-                          <div className="mb-4">
-                            <Upload className="w-16 h-16 mx-auto text-gray-400" />
+                        ) : uploadedImage ? (
+                          <div className="space-y-4">
+                            <CodeImagePreview src={uploadedImage} codes={scanResults} />
+                            {isRegion && (
+                              <p className="text-xs text-gray-500">Showing the selected region</p>
+                            )}
+                            <div className="flex gap-2 justify-center">
+                              <Button
+                                onClick={() => setIsSelectingRegion(true)}
+                                variant="outline"
+                                size="sm"
+                                className="gap-2"
+                                disabled={!fullImage}
+                              >
+                                <Crop className="w-4 h-4" />
+                                Select Region
+                              </Button>
+                              {isRegion && (
+                                <Button
+                                  onClick={scanFullImage}
+                                  variant="outline"
+                                  size="sm"
+                                  className="gap-2"
+                                >
+                                  <Undo2 className="w-4 h-4" />
+                                  Full Image
+                                </Button>
+                              )}
+                              <Button
+                                onClick={clearResults}
+                                variant="outline"
+                                size="sm"
+                                className="gap-2"
+                              >
+                                <X className="w-4 h-4" />
+                                Clear
+                              </Button>
+                            </div>
                           </div>
-                          <h3 className="text-xl font-semibold text-gray-700 mb-2">
-                            Drop your image here
-                          </h3>
-                          <p className="text-gray-500 mb-4">
-                            or choose from the options below
-                          </p>
-                          
-                          {/* File Path Input */}
-                          <div className="mb-4 space-y-2">
-                            <div className="flex gap-2">
-                              <Input
-                                value={filePath}
-                                onChange={(e) => setFilePath(e.target.value)}
-                                placeholder="Paste file path here (e.g., /path/to/image.jpg)"
-                                className="flex-1"
-                              />
+                        ) : (
+                          <>
+                            <div className="mb-4">
+                              <Upload className="w-16 h-16 mx-auto text-gray-400" />
+                            </div>
+                            <h3 className="text-xl font-semibold text-gray-700 mb-2">
+                              Drop your images or folders here
+                            </h3>
+                            <p className="text-gray-500 mb-4">
+                              or choose from the options below
+                            </p>
+                            
+                            {/* File Path Input */}
+                            <div className="mb-4 space-y-2">
+                              <div className="flex gap-2">
+                                <Input
+                                  value={filePath}
+                                  onChange={(e) => setFilePath(e.target.value)}
+                                  placeholder="Paste file path here (e.g., /path/to/image.jpg)"
+                                  className="flex-1"
+                                />
+                                <Button
+                                  onClick={loadFromFilePath}
+                                  variant="outline"
+                                  className="gap-2"
+                                  disabled={isScanning}
+                                >
+                                  <FileText className="w-4 h-4" />
+                                  Load
+                                </Button>
+                              </div>
+                              <p className="text-xs text-gray-500">
+                                Enter a local file path or URL to an image
+                              </p>
+                            </div>
+                            
+                            <div className="flex gap-3 justify-center">
+                              <Button
+                                onClick={() => fileInputRef.current?.click()}
+                                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                                disabled={isScanning}
+                              >
+                                {isScanning ? 'Scanning...' : 'Choose Files'}
+                              </Button>
+                              <Button
+                                onClick={() => folderInputRef.current?.click()}
+                                variant="outline"
+                                className="gap-2"
+                                disabled={isScanning}
+                              >
+                                <FolderOpen className="w-4 h-4" />
+                                Choose Folder
+                              </Button>
                               <Button
-                                onClick={loadFromFilePath}
+                                onClick={startCamera}
                                 variant="outline"
                                 className="gap-2"
                                 disabled={isScanning}
                               >
-                                <FileText className="w-4 h-4" />
-                                Load
+                                <Camera className="w-4 h-4" />
+                                Use Camera
                               </Button>
                             </div>
-                            <p className="text-xs text-gray-500">
-                              Enter a local file path or URL to an image
-                            </p>
-                          </div>
-                          
-                          <div className="flex gap-3 justify-center">
-                            <Button
-                              onClick={() => fileInputRef.current?.click()}
-                              className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-                              disabled={isScanning}
-                            >
-                              {isScanning ? 'Scanning...' : 'Choose File'}
+                            <div className="flex items-center justify-center gap-2 mt-4">
+                              <Switch
+                                id="find-all-codes"
+                                checked={findAllCodes}
+                                onCheckedChange={setFindAllCodes}
+                              />
+                              <Label htmlFor="find-all-codes" className="text-sm text-gray-600">
+                                Find every code in the image
+                              </Label>
+                            </div>
+                            {cameraError && (
+                              <p className="text-red-500 text-sm mt-2">{cameraError}</p>
+                            )}
+                          </>
+                        )}
+                      </div>
+                      
+                      {isScanning && (
+                        <div className="absolute inset-0 bg-white/80 flex items-center justify-center pointer-events-auto">
+                          <div className="text-center">
+                            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                            <p className="text-gray-600 mb-3">Scanning code...</p>
+                            <Button onClick={cancelScan} variant="outline" size="sm" className="gap-2">
+                              <X className="w-4 h-4" />
+                              Cancel
                             </Button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={handleFileSelect}
+                    className="hidden"
+                  />
+                  <input
+                    ref={folderInputRef}
+                    type="file"
+                    // Not in React's attribute types, but every current browser supports it
+                    {...{ webkitdirectory: '' }}
+                    onChange={handleFileSelect}
+                    className="hidden"
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Results Area */}
+              <Card className="h-fit">
+                <CardContent className="p-6">
+                  <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+                    <CheckCircle className="w-5 h-5 text-green-600" />
+                    Scan Results
+                  </h2>
+                  
+                  {scanResults.length > 0 ? (
+                    <div className="space-y-4">
+                      {scanResults.map((result, index) => (
+                        <div key={index} className="bg-gray-50 rounded-lg p-4">
+                          <label className="text-sm font-medium text-gray-600 mb-2 flex items-center gap-2">
+                            {scanResults.length > 1 && (
+                              <span className="flex h-5 w-5 items-center justify-center rounded-full bg-blue-600 text-[10px] font-semibold text-white">
+                                {index + 1}
+                              </span>
+                            )}
+                            {result.format} Data:
+                          </label>
+                          <div className="bg-white rounded border p-3 font-mono text-sm break-all">
+                            {result.data}
+                          </div>
+                          <div className="mt-2 flex items-center justify-between">
+                            <div className="text-xs text-gray-500 space-y-0.5">
+                              <p>Format: {result.format}</p>
+                              {result.transform && (
+                                <p className="text-amber-700">Read after preprocessing: {result.transform}</p>
+                              )}
+                            </div>
                             <Button
-                              onClick={startCamera}
+                              onClick={() => copyToClipboard(result.data)}
                               variant="outline"
+                              size="sm"
                               className="gap-2"
-                              disabled={isScanning}
                             >
-                              <Camera className="w-4 h-4" />
-                              Use Camera
+                              <Copy className="w-4 h-4" />
+                              Copy
                             </Button>
                           </div>
-                          {cameraError && (
-                            <p className="text-red-500 text-sm mt-2">{cameraError}</p>
-                          )}
-                        </>
-                      )}
-                    </div>
-                    
-                    {isScanning && (
-                      <div className="absolute inset-0 bg-white/80 flex items-center justify-center">
-                        <div className="text-center">
-                          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-                          <p className="text-gray-600">Scanning code...</p>
                         </div>
-                      </div>
-                    )}
-                  </div>
-                )}
-                
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept="image/*"
-                  onChange={handleFileSelect}
-                  className="hidden"
-                />
-              </CardContent>
-            </Card>
+                      ))}
 
-            {/* Results Area */}
-            <Card className="h-fit">
-              <CardContent className="p-6">
-                <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
-                  <CheckCircle className="w-5 h-5 text-green-600" />
-                  Scan Results
-                </h2>
-                
-                {scanResult ? (
-                  <div className="space-y-4">
-                    <div className="bg-gray-50 rounded-lg p-4">
-                      <label className="text-sm font-medium text-gray-600 block mb-2">
-                        {scanResult.format} Data:
-                      </label>
-                      <div className="bg-white rounded border p-3 font-mono text-sm break-all">
-                        {scanResult.data}
-                      </div>
-                      <div className="mt-2">
-                        <span className="text-xs text-gray-500">
-                          Format: {scanResult.format}
-                        </span>
-                      </div>
-                    </div>
-                    
-                    <div className="flex items-center justify-between">
                       <span className="text-sm text-gray-500">
-                        Scanned at {scanResult.timestamp.toLocaleTimeString()}
+                        Scanned at {scanResults[0].timestamp.toLocaleTimeString()}
                       </span>
-                      <Button
-                        onClick={copyToClipboard}
-                        variant="outline"
-                        size="sm"
-                        className="gap-2"
-                      >
-                        <Copy className="w-4 h-4" />
-                        Copy
-                      </Button>
                     </div>
-                  </div>
-                ) : (
-                  <div className="text-center py-8">
-                    <AlertCircle className="w-12 h-12 mx-auto text-gray-400 mb-4" />
-                    <p className="text-gray-500">
-                      No code data yet. Upload an image, paste a file path, or use camera to get started.
-                    </p>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </div>
+                  ) : (
+                    <div className="text-center py-8">
+                      <AlertCircle className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+                      <p className="text-gray-500">
+                        No code data yet. Upload an image, paste a file path, or use camera to get started.
+                      </p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {batchScan.items.length > 0 && (
+              <BatchScanResults
+                items={batchScan.items}
+                finished={batchScan.finished}
+                isRunning={batchScan.isRunning}
+                onClear={batchScan.clear}
+              />
+            )}
+          </>
         ) : (
           /* QR Generator Section */
           <div className="max-w-2xl mx-auto">
@@ -632,7 +754,7 @@ const QRScanner = () => {
                 </div>
                 <div>
                   <p className="font-medium text-gray-800">1. Upload Image</p>
-                  <p>Drag & drop or select an image containing a QR code or barcode</p>
+                  <p>Drag & drop or select images, or whole folders, containing QR codes or barcodes</p>
                 </div>
               </div>
               <div className="flex items-start gap-3">
@@ -1,10 +1,13 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Copy, ExternalLink, Clock, Users } from 'lucide-react';
+import { Copy, ExternalLink, Clock, Users, Folder } from 'lucide-react';
 import { format, isAfter } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { useNow } from '@/hooks/use-now';
+import { formatCountdown } from '@/lib/link-status';
 import { P2PLink } from '@/lib/p2p-service';
+import TagBadge from '@/components/TagBadge';
 
 interface SharedLinksProps {
   sharedLinks: P2PLink[];
@@ -12,6 +15,7 @@ interface SharedLinksProps {
 
 const SharedLinks = ({ sharedLinks }: SharedLinksProps) => {
   const { toast } = useToast();
+  const now = useNow(1000);
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -22,22 +26,13 @@ const SharedLinks = ({ sharedLinks }: SharedLinksProps) => {
   };
 
   const isExpired = (date: Date) => {
-    return isAfter(new Date(), date);
+    return isAfter(now, date);
   };
 
   const getTimeUntilExpiry = (date: Date) => {
-    const now = new Date();
     const diff = date.getTime() - now.getTime();
-    
     if (diff <= 0) return 'Expired';
-    
-    const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-    const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-    
-    if (days > 0) return `${days}d ${hours}h remaining`;
-    if (hours > 0) return `${hours}h ${minutes}m remaining`;
-    return `${minutes}m remaining`;
+    return `${formatCountdown(diff)} remaining`;
   };
 
   if (sharedLinks.length === 0) {
@@ -93,6 +88,19 @@ const SharedLinks = ({ sharedLinks }: SharedLinksProps) => {
                     <Clock className="h-4 w-4" />
                     <span>Shared {format(new Date(link.createdAt), 'MMM d, yyyy')}</span>
                   </div>
+                  {(link.folder || link.tags?.length > 0) && (
+                    <div className="flex flex-wrap items-center gap-1">
+                      {link.folder && (
+                        <span className="inline-flex items-center gap-1 text-xs text-muted-foreground mr-1">
+                          <Folder className="h-3 w-3" />
+                          {link.folder}
+                        </span>
+                      )}
+                      {link.tags?.map((tag) => (
+                        <TagBadge key={tag.name} tag={tag} />
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                   {isExpired(link.expiresAt) ? (
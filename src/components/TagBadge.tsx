@@ -0,0 +1,26 @@
+import { X } from 'lucide-react';
+import { LinkTag } from '@/lib/link-tags';
+
+interface TagBadgeProps {
+  tag: LinkTag;
+  onRemove?: () => void;
+}
+
+const TagBadge = ({ tag, onRemove }: TagBadgeProps) => {
+  return (
+    <span
+      className="inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium"
+      style={{ backgroundColor: `${tag.color}1f`, color: tag.color }}
+    >
+      <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: tag.color }} />
+      {tag.name}
+      {onRemove && (
+        <button type="button" onClick={onRemove} aria-label={`Remove ${tag.name}`} className="hover:opacity-70">
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+};
+
+export default TagBadge;
@@ -0,0 +1,59 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LinkTag } from '@/lib/link-tags';
+
+// Normalized tag names and folders never start with a space, so this cannot clash with a real one
+const ANY = ' any';
+
+interface TagFolderFiltersProps {
+  tags: LinkTag[];
+  folders: string[];
+  tag?: string;
+  folder?: string;
+  onChange: (changes: { tag?: string; folder?: string }) => void;
+}
+
+const TagFolderFilters = ({ tags, folders, tag, folder, onChange }: TagFolderFiltersProps) => {
+  return (
+    <>
+      {tags.length > 0 && (
+        <Select
+          value={tag ?? ANY}
+          onValueChange={(value) => onChange({ tag: value === ANY ? undefined : value })}
+        >
+          <SelectTrigger className="sm:w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All tags</SelectItem>
+            {tags.map((option) => (
+              <SelectItem key={option.name} value={option.name}>
+                <span className="flex items-center gap-2">
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: option.color }} />
+                  {option.name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {folders.length > 0 && (
+        <Select
+          value={folder ?? ANY}
+          onValueChange={(value) => onChange({ folder: value === ANY ? undefined : value })}
+        >
+          <SelectTrigger className="sm:w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All folders</SelectItem>
+            {folders.map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </>
+  );
+};
+
+export default TagFolderFilters;
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Check, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSaveTag, useTags } from '@/hooks/use-links';
+import { getDefaultTagColor, normalizeTagName, resolveTags, TAG_COLORS, TAG_NAME_MAX_LENGTH } from '@/lib/link-tags';
+import TagBadge from '@/components/TagBadge';
+import { cn } from '@/lib/utils';
+
+interface TagPickerProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const TagPicker = ({ value, onChange }: TagPickerProps) => {
+  const { data: tags = [] } = useTags();
+  const saveTag = useSaveTag();
+  const { toast } = useToast();
+  const [search, setSearch] = useState('');
+  const [newColor, setNewColor] = useState<string | null>(null);
+
+  const name = normalizeTagName(search);
+  const matching = tags.filter(tag => tag.name.includes(name));
+  const canCreate = !!name && !tags.some(tag => tag.name === name);
+
+  const toggle = (tagName: string) => {
+    onChange(value.includes(tagName) ? value.filter(t => t !== tagName) : [...value, tagName]);
+  };
+
+  const createTag = async () => {
+    if (!canCreate) return;
+    try {
+      await saveTag.mutateAsync({ name, color: newColor ?? getDefaultTagColor(name) });
+      onChange([...value, name]);
+      setSearch('');
+      setNewColor(null);
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      toast({
+        title: "Could not create tag",
+        description: "The tag could not be saved. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {resolveTags(value, tags).map((tag) => (
+        <TagBadge key={tag.name} tag={tag} onRemove={() => toggle(tag.name)} />
+      ))}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-7 gap-1 text-xs">
+            <Plus className="h-3 w-3" />
+            Tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-2 space-y-2" align="start">
+          <Input
+            placeholder="Find or create a tag"
+            value={search}
+            maxLength={TAG_NAME_MAX_LENGTH}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                createTag();
+              }
+            }}
+            className="h-8"
+          />
+          <div className="max-h-48 overflow-y-auto">
+            {matching.map((tag) => (
+              <button
+                key={tag.name}
+                type="button"
+                onClick={() => toggle(tag.name)}
+                className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-gray-100"
+              >
+                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                <span className="flex-1 text-left">{tag.name}</span>
+                {value.includes(tag.name) && <Check className="h-4 w-4" />}
+              </button>
+            ))}
+            {matching.length === 0 && !canCreate && (
+              <p className="px-2 py-1.5 text-sm text-gray-500">No tags yet. Type a name to create one.</p>
+            )}
+          </div>
+          {canCreate && (
+            <div className="space-y-2 border-t pt-2">
+              <div className="flex gap-1">
+                {TAG_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setNewColor(color)}
+                    className={cn(
+                      "h-5 w-5 rounded-full border-2",
+                      (newColor ?? getDefaultTagColor(name)) === color ? "border-gray-900" : "border-transparent"
+                    )}
+                    style={{ backgroundColor: color }}
+                    aria-label={`Use colour ${color}`}
+                  />
+                ))}
+              </div>
+              <Button size="sm" className="w-full" onClick={createTag} disabled={saveTag.isPending}>
+                Create "{name}"
+              </Button>
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default TagPicker;
@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToastAction } from '@/components/ui/toast';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useDeleteLinks, usePurgeTrash, useRestoreBackup, useTrash, useUntrashLinks } from '@/hooks/use-links';
+import {
+  getPurgeCutoff,
+  getPurgeLabel,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  TRASH_RETENTION_OPTIONS,
+} from '@/lib/link-trash';
+
+interface TrashDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TrashDialog = ({ open, onOpenChange }: TrashDialogProps) => {
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays);
+  const { data: trash = [] } = useTrash();
+  const untrashLinks = useUntrashLinks();
+  const deleteLinks = useDeleteLinks();
+  const restoreBackup = useRestoreBackup();
+  const { mutate: purgeTrash } = usePurgeTrash();
+  const { toast } = useToast();
+
+  // Clear out anything past the retention period whenever the Link Manager loads or the period changes
+  useEffect(() => {
+    purgeTrash(getPurgeCutoff(retentionDays));
+  }, [retentionDays, purgeTrash]);
+
+  const changeRetention = (value: string) => {
+    setTrashRetentionDays(Number(value));
+    setRetentionDays(Number(value));
+  };
+
+  const restore = async (ids: string[]) => {
+    try {
+      await untrashLinks.mutateAsync(ids);
+      toast({
+        title: "Link restored",
+        description: "The link redirects again, with its click history intact.",
+      });
+    } catch (error) {
+      console.error('Error restoring link:', error);
+      toast({
+        title: "Could not restore link",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Permanent, but the toast still offers a way back while it is showing
+  const deleteForever = async (ids: string[]) => {
+    let removed;
+    try {
+      removed = await deleteLinks.mutateAsync(ids);
+    } catch (error) {
+      console.error('Error deleting links:', error);
+      toast({
+        title: "Could not delete links",
+        description: "Nothing was deleted. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const undo = async () => {
+      try {
+        await restoreBackup.mutateAsync(removed);
+      } catch (error) {
+        console.error('Error restoring links:', error);
+        toast({
+          title: "Could not undo",
+          description: "The deleted links could not be restored.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    toast({
+      title: removed.links.length === 1 ? "Link permanently deleted" : `${removed.links.length} links permanently deleted`,
+      description: "Their click history has been removed as well.",
+      action: (
+        <ToastAction altText="Undo delete" onClick={undo}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted links stop redirecting but keep their short URL and click history until they are
+            deleted for good.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="trash-retention" className="whitespace-nowrap">Keep deleted links for</Label>
+          <Select value={String(retentionDays)} onValueChange={changeRetention}>
+            <SelectTrigger id="trash-retention" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRASH_RETENTION_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  {days} day{days === 1 ? '' : 's'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {trash.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Trash2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>The Trash is empty</p>
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto rounded border divide-y">
+            {trash.map((link) => (
+              <div key={link.id} className="flex items-start justify-between gap-4 p-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium truncate">{link.title}</p>
+                  <p className="text-sm text-gray-500 truncate">/l/{link.shortUrl}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                    <span>Deleted {format(link.deletedAt, 'MMM d, yyyy HH:mm')}</span>
+                    <Badge variant="outline">{getPurgeLabel(link, retentionDays)}</Badge>
+                    <span>{link.clicks} clicks</span>
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restore([link.id])}
+                    disabled={untrashLinks.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => deleteForever([link.id])}
+                    disabled={deleteLinks.isPending}
+                    title="Delete forever"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => deleteForever(trash.map(link => link.id))}
+            disabled={trash.length === 0 || deleteLinks.isPending}
+          >
+            Empty Trash
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TrashDialog;
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { BatchItem, isFinished } from "@/lib/batch-scan"
+import { decodePool, DecodeCancelledError, DecodeTimeoutError } from "@/lib/decode-pool"
+
+// A batch of images handed to the decode workers, with each one's progress as it goes
+export function useBatchScan() {
+  const [items, setItems] = useState<BatchItem[]>([])
+  // Aborted on clear and unmount, which cancels everything queued or running
+  const controllerRef = useRef(new AbortController())
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) =>
+    setItems(current => current.map(item => (item.id === id ? { ...item, ...changes } : item))), [])
+
+  const scanItem = useCallback(async (item: BatchItem, multiple: boolean, signal: AbortSignal) => {
+    try {
+      const codes = await decodePool.decode(item.file, {
+        multiple,
+        signal,
+        onStart: () => updateItem(item.id, { status: "scanning" }),
+      })
+      updateItem(item.id, { status: codes.length > 0 ? "decoded" : "not-found", codes })
+    } catch (error) {
+      if (error instanceof DecodeCancelledError) return
+      if (error instanceof DecodeTimeoutError) {
+        updateItem(item.id, { status: "timed-out" })
+        return
+      }
+      console.error("Error scanning batch image:", error)
+      updateItem(item.id, { status: "failed" })
+    }
+  }, [updateItem])
+
+  // Add files to the batch; `multiple` looks for every code in each image
+  const scanFiles = useCallback((files: { file: File; path: string }[], multiple: boolean) => {
+    const added: BatchItem[] = files.map(({ file, path }) => ({
+      id: crypto.randomUUID(),
+      file,
+      path,
+      status: "queued",
+      codes: [],
+    }))
+    setItems(current => [...current, ...added])
+    const { signal } = controllerRef.current
+    added.forEach((item) => {
+      scanItem(item, multiple, signal)
+    })
+  }, [scanItem])
+
+  const clear = useCallback(() => {
+    controllerRef.current.abort()
+    controllerRef.current = new AbortController()
+    setItems([])
+  }, [])
+
+  useEffect(() => () => controllerRef.current.abort(), [])
+
+  const finished = items.filter(isFinished).length
+
+  return {
+    items,
+    finished,
+    total: items.length,
+    isRunning: finished < items.length,
+    scanFiles,
+    clear,
+  }
+}
@@ -0,0 +1,56 @@
+import { ToastAction } from "@/components/ui/toast"
+import { useToast } from "@/hooks/use-toast"
+import { useTrashLinks, useUntrashLinks } from "@/hooks/use-links"
+
+// Move links to the Trash and offer an Undo button in the toast that takes them
+// straight back out
+export function useDeleteWithUndo() {
+  const trashLinks = useTrashLinks()
+  const untrashLinks = useUntrashLinks()
+  const { toast } = useToast()
+
+  const deleteWithUndo = async (ids: string[]): Promise<boolean> => {
+    let trashed
+    try {
+      trashed = await trashLinks.mutateAsync(ids)
+    } catch (error) {
+      console.error("Error deleting links:", error)
+      toast({
+        title: ids.length === 1 ? "Could not delete link" : "Could not delete links",
+        description: "Nothing was deleted. Please try again.",
+        variant: "destructive",
+      })
+      return false
+    }
+
+    const undo = async () => {
+      try {
+        await untrashLinks.mutateAsync(trashed.map((link) => link.id))
+        toast({
+          title: "Deletion undone",
+          description: `${trashed.length === 1 ? "The link has" : `${trashed.length} links have`} been restored.`,
+        })
+      } catch (error) {
+        console.error("Error restoring links:", error)
+        toast({
+          title: "Could not undo",
+          description: "The links are still in the Trash and can be restored from there.",
+          variant: "destructive",
+        })
+      }
+    }
+
+    toast({
+      title: trashed.length === 1 ? "Link moved to Trash" : `${trashed.length} links moved to Trash`,
+      description: `${trashed.length === 1 ? "It stops" : "They stop"} redirecting straight away and can be restored from the Trash.`,
+      action: (
+        <ToastAction altText="Undo delete" onClick={undo}>
+          Undo
+        </ToastAction>
+      ),
+    })
+    return true
+  }
+
+  return { deleteWithUndo, isDeleting: trashLinks.isPending }
+}
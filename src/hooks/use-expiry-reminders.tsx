@@ -0,0 +1,99 @@
+import { useCallback, useEffect } from "react"
+import { useSearchParams } from "react-router-dom"
+import { ToastAction } from "@/components/ui/toast"
+import { useToast } from "@/hooks/use-toast"
+import { useLinks, useUpdateLink } from "@/hooks/use-links"
+import { useLifecycleEvents } from "@/hooks/use-link-lifecycle"
+import { Link } from "@/lib/link-repository"
+import { getTimeUntilExpiry } from "@/lib/link-status"
+import {
+  EXTEND_MESSAGE,
+  getExtendedExpiry,
+  hasSentReminder,
+  markReminderSent,
+  registerReminderWorker,
+  REMINDER_EXTEND_HOURS,
+  showReminderNotification,
+} from "@/lib/link-reminders"
+
+export function useExtendLink() {
+  const { mutateAsync: updateLink, isPending: isExtending } = useUpdateLink()
+  const { toast } = useToast()
+
+  const extendLink = useCallback(async (link: Link, hours = REMINDER_EXTEND_HOURS) => {
+    try {
+      await updateLink({ id: link.id, changes: { expiresAt: getExtendedExpiry(link.expiresAt, hours) } })
+      toast({
+        title: "Link extended",
+        description: `"${link.title}" now expires ${hours} hours later.`,
+      })
+    } catch (error) {
+      console.error("Error extending link:", error)
+      toast({
+        title: "Could not extend link",
+        description: "Please try again.",
+        variant: "destructive",
+      })
+    }
+  }, [updateLink, toast])
+
+  return { extendLink, isExtending }
+}
+
+// Send each due reminder once, as a notification when allowed and as a toast otherwise,
+// and carry out the Extend action from notifications
+export function useExpiryReminders() {
+  const { data: links } = useLinks()
+  const { extendLink } = useExtendLink()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    registerReminderWorker()
+  }, [])
+
+  useLifecycleEvents(async (event) => {
+    const { link } = event
+    if (hasSentReminder(link)) return
+    markReminderSent(link)
+
+    const timeLeft = getTimeUntilExpiry(link.expiresAt)
+    if (await showReminderNotification(link, timeLeft)) return
+    toast({
+      title: "Link expiring soon",
+      description: `"${link.title}" expires in ${timeLeft}.`,
+      action: (
+        <ToastAction altText={`Extend by ${REMINDER_EXTEND_HOURS} hours`} onClick={() => extendLink(link)}>
+          Extend {REMINDER_EXTEND_HOURS}h
+        </ToastAction>
+      ),
+    })
+  }, ["reminder"])
+
+  // Extend clicked on a notification while this tab was open
+  useEffect(() => {
+    if (!("serviceWorker" in navigator) || !links) return
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type !== EXTEND_MESSAGE) return
+      const link = links.find((link) => link.id === event.data.linkId)
+      if (link) extendLink(link, event.data.hours)
+    }
+    navigator.serviceWorker.addEventListener("message", onMessage)
+    navigator.serviceWorker.startMessages()
+    return () => navigator.serviceWorker.removeEventListener("message", onMessage)
+  }, [links, extendLink])
+
+  // Extend clicked with no tab open: the worker opens the app with ?extend=<id>
+  const extendId = searchParams.get("extend")
+  useEffect(() => {
+    if (!extendId || !links) return
+    const link = links.find((link) => link.id === extendId)
+    const hours = Number(searchParams.get("hours")) || REMINDER_EXTEND_HOURS
+    setSearchParams((params) => {
+      params.delete("extend")
+      params.delete("hours")
+      return params
+    }, { replace: true })
+    if (link) extendLink(link, hours)
+  }, [extendId, links, searchParams, setSearchParams, extendLink])
+}
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from "react"
+import { useLinks, useTrash } from "@/hooks/use-links"
+import { LifecycleEventType, LifecycleListener, linkLifecycle } from "@/lib/link-lifecycle"
+
+// Feed the live links and the Trash to the lifecycle scheduler; mount once near the root of the app
+export function useLifecycleSweeper() {
+  const { data: links, isFetching: isFetchingLinks } = useLinks()
+  const { data: trash, isFetching: isFetchingTrash } = useTrash()
+
+  // Wait for both lists to settle, or a link on its way to the Trash looks deleted for a moment
+  useEffect(() => {
+    if (links && trash && !isFetchingLinks && !isFetchingTrash) linkLifecycle.sync(links, trash)
+  }, [links, trash, isFetchingLinks, isFetchingTrash])
+
+  useEffect(() => {
+    // Timers are throttled in background tabs, so catch up as soon as the tab is visible again
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible") linkLifecycle.sweep()
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange)
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange)
+      linkLifecycle.stop()
+    }
+  }, [])
+}
+
+// Subscribe to lifecycle events, optionally only some types; the latest listener is always used
+export function useLifecycleEvents(listener: LifecycleListener, types?: LifecycleEventType[]) {
+  const listenerRef = useRef(listener)
+  listenerRef.current = listener
+  const typesKey = types?.join(",")
+
+  useEffect(() => {
+    const wanted = typesKey?.split(",")
+    return linkLifecycle.subscribe((event) => {
+      if (!wanted || wanted.includes(event.type)) listenerRef.current(event)
+    })
+  }, [typesKey])
+}
@@ -0,0 +1,193 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  ClickMetadata,
+  Link,
+  linkRepository,
+  LinkTombstone,
+  LinkSnapshot,
+  LinkUpdate,
+  NewLink,
+} from "@/lib/link-repository"
+import { createWithShortUrl } from "@/lib/short-url"
+import { ImportRow, importLinks } from "@/lib/link-import"
+import { LinkTag } from "@/lib/link-tags"
+
+export const linkKeys = {
+  all: ["links"] as const,
+  list: () => [...linkKeys.all, "list"] as const,
+  trash: () => [...linkKeys.all, "trash"] as const,
+  detail: (id: string) => [...linkKeys.all, "detail", id] as const,
+  byShortUrl: (shortUrl: string) => [...linkKeys.all, "short", shortUrl] as const,
+  clicks: (linkId?: string) => [...linkKeys.all, "clicks", linkId ?? "all"] as const,
+  tags: () => [...linkKeys.all, "tags"] as const,
+}
+
+export function useLinks() {
+  return useQuery({
+    queryKey: linkKeys.list(),
+    queryFn: () => linkRepository.list(),
+  })
+}
+
+export function useTrash() {
+  return useQuery({
+    queryKey: linkKeys.trash(),
+    queryFn: () => linkRepository.listTrash(),
+  })
+}
+
+export function useLink(id: string | undefined) {
+  const queryClient = useQueryClient()
+  return useQuery({
+    queryKey: linkKeys.detail(id ?? ""),
+    queryFn: async () => (await linkRepository.get(id!)) ?? null,
+    initialData: () =>
+      queryClient.getQueryData<Link[]>(linkKeys.list())?.find((link) => link.id === id),
+    enabled: !!id,
+  })
+}
+
+export interface ShortUrlLookup {
+  link: Link | null
+  tombstone: LinkTombstone | null
+}
+
+export function useLinkByShortUrl(shortUrl: string | undefined) {
+  const queryClient = useQueryClient()
+  return useQuery({
+    queryKey: linkKeys.byShortUrl(shortUrl ?? ""),
+    queryFn: async (): Promise<ShortUrlLookup> => {
+      const link = await linkRepository.getByShortUrl(shortUrl!)
+      if (link) {
+        return { link, tombstone: null }
+      }
+      const tombstone = await linkRepository.getTombstone(shortUrl!)
+      return { link: null, tombstone: tombstone ?? null }
+    },
+    // Reuse the cached list when the redirect is opened from within the app
+    initialData: () => {
+      const link = queryClient
+        .getQueryData<Link[]>(linkKeys.list())
+        ?.find((link) => link.shortUrl === shortUrl)
+      return link ? { link, tombstone: null } : undefined
+    },
+    enabled: !!shortUrl,
+  })
+}
+
+export function useCreateLink() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ alias, ...input }: Omit<NewLink, "shortUrl"> & { alias?: string }) =>
+      createWithShortUrl(linkRepository, input, alias),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linkKeys.all }),
+  })
+}
+
+export function useImportLinks() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (rows: ImportRow[]) => importLinks(linkRepository, rows),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linkKeys.all }),
+  })
+}
+
+export function useUpdateLink() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: LinkUpdate }) =>
+      linkRepository.update(id, changes),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linkKeys.all }),
+  })
+}
+
+export function useUpdateLinks() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (updates: { id: string; changes: LinkUpdate }[]) =>
+      linkRepository.updateMany(updates),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linkKeys.all }),
+  })
+}
+
+export function useTrashLinks() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (ids: string[]) => linkRepository.trash(ids),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linkKeys.all }),
+  })
+}
+
+export function useUntrashLinks() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (ids: string[]) => linkRepository.untrash(ids),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linkKeys.all }),
+  })
+}
+
+// Permanently delete trashed links older than the cutoff
+export function usePurgeTrash() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (deletedBefore: Date) => linkRepository.purgeTrash(deletedBefore),
+    onSuccess: (purged) => {
+      if (purged > 0) queryClient.invalidateQueries({ queryKey: linkKeys.all })
+    },
+  })
+}
+
+// Permanent; resolves to the removed links and clicks, which useRestoreBackup can put back
+export function useDeleteLinks() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (ids: string[]) => linkRepository.deleteMany(ids),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linkKeys.all }),
+  })
+}
+
+export function useClicks(linkId?: string) {
+  return useQuery({
+    queryKey: linkKeys.clicks(linkId),
+    queryFn: () => linkRepository.listClicks(linkId),
+  })
+}
+
+export function useTags() {
+  return useQuery({
+    queryKey: linkKeys.tags(),
+    queryFn: () => linkRepository.listTags(),
+  })
+}
+
+export function useSaveTag() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (tag: LinkTag) => linkRepository.saveTag(tag),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linkKeys.tags() }),
+  })
+}
+
+// Read everything in the store for a backup file
+export function useSnapshot() {
+  return useMutation({
+    mutationFn: () => linkRepository.snapshot(),
+  })
+}
+
+export function useRestoreBackup() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (snapshot: LinkSnapshot) => linkRepository.restore(snapshot),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linkKeys.all }),
+  })
+}
+
+export function useRecordClick() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, metadata }: { id: string; metadata: ClickMetadata }) =>
+      linkRepository.recordClick(id, metadata),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linkKeys.all }),
+  })
+}
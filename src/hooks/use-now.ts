@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react"
+
+// The current time, refreshed on an interval so countdowns keep ticking without a data change
+export function useNow(intervalMs = 1000) {
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), intervalMs)
+    return () => clearInterval(timer)
+  }, [intervalMs])
+
+  return now
+}
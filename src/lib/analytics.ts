@@ -0,0 +1,196 @@
+import { differenceInCalendarDays, eachDayOfInterval, endOfDay, format, startOfDay, subDays } from 'date-fns';
+import { ClickEvent, Link } from './link-repository';
+import { getLinkStatus, LinkStatus, STATUS_LABELS } from './link-status';
+import { getReferrerSource } from './click-tracking';
+
+export type RangePreset = '7d' | '30d' | '90d';
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+export interface AnalyticsSummary {
+  totalLinks: number;
+  totalClicks: number;
+  activeLinks: number;
+  expiredLinks: number;
+  scheduledLinks: number;
+  averageClicksPerLink: number;
+}
+
+export interface DailyClicks {
+  date: string;
+  clicks: number;
+}
+
+export interface StatusSlice {
+  name: string;
+  value: number;
+  color: string;
+}
+
+export interface BreakdownEntry {
+  name: string;
+  value: number;
+}
+
+export interface TopLink {
+  id: string;
+  title: string;
+  clicks: number;
+  status: LinkStatus;
+}
+
+const STATUS_COLORS: Record<LinkStatus, string> = {
+  scheduled: '#6366f1',
+  active: '#10b981',
+  expired: '#ef4444',
+  exhausted: '#f59e0b',
+};
+
+const PRESET_DAYS: Record<RangePreset, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+};
+
+// Whole days ending today, e.g. '7d' is today plus the six days before it
+export function getPresetRange(preset: RangePreset, now: Date = new Date()): AnalyticsRange {
+  return {
+    from: subDays(startOfDay(now), PRESET_DAYS[preset] - 1),
+    to: endOfDay(now),
+  };
+}
+
+// The window of equal length immediately before the given one
+export function getPreviousRange(range: AnalyticsRange): AnalyticsRange {
+  const days = differenceInCalendarDays(range.to, range.from) + 1;
+  return {
+    from: subDays(startOfDay(range.from), days),
+    to: endOfDay(subDays(range.from, 1)),
+  };
+}
+
+const isInRange = (date: Date, range: AnalyticsRange) => date >= range.from && date <= range.to;
+
+export function filterClicks(clicks: ClickEvent[], range: AnalyticsRange): ClickEvent[] {
+  return clicks.filter(click => isInRange(click.timestamp, range));
+}
+
+// Totals for a window: links created and clicks made inside it, and the status
+// of every link that existed by the time the window closed
+export function summarize(
+  links: Link[],
+  clicks: ClickEvent[],
+  range: AnalyticsRange,
+  now: Date = new Date()
+): AnalyticsSummary {
+  const asOf = range.to < now ? range.to : now;
+  const existing = links.filter(link => link.createdAt <= range.to);
+  const statuses = existing.map(link => getLinkStatus(link, asOf));
+  const activeLinks = statuses.filter(status => status === 'active').length;
+  const totalClicks = filterClicks(clicks, range).length;
+
+  return {
+    totalLinks: links.filter(link => isInRange(link.createdAt, range)).length,
+    totalClicks,
+    activeLinks,
+    expiredLinks: statuses.filter(status => status === 'expired' || status === 'exhausted').length,
+    scheduledLinks: statuses.filter(status => status === 'scheduled').length,
+    averageClicksPerLink: existing.length ? Math.round((totalClicks / existing.length) * 10) / 10 : 0,
+  };
+}
+
+// "+2", "-0.5", or a percentage change when asked for one
+export function formatDelta(current: number, previous: number, asPercent = false): string {
+  if (asPercent) {
+    if (previous === 0) {
+      return current === 0 ? '0%' : 'New';
+    }
+    const change = Math.round(((current - previous) / previous) * 100);
+    return `${change > 0 ? '+' : ''}${change}%`;
+  }
+
+  const change = Math.round((current - previous) * 10) / 10;
+  return `${change > 0 ? '+' : ''}${change}`;
+}
+
+// Bucket click events per calendar day, including days without any clicks
+export function getDailyClicks(clicks: ClickEvent[], range: AnalyticsRange): DailyClicks[] {
+  const counts = new Map<string, number>();
+  filterClicks(clicks, range).forEach(click => {
+    const day = format(click.timestamp, 'yyyy-MM-dd');
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  });
+
+  return eachDayOfInterval({ start: startOfDay(range.from), end: startOfDay(range.to) }).map(day => {
+    const date = format(day, 'yyyy-MM-dd');
+    return { date, clicks: counts.get(date) ?? 0 };
+  });
+}
+
+export function getStatusBreakdown(links: Link[], range: AnalyticsRange, now: Date = new Date()): StatusSlice[] {
+  const asOf = range.to < now ? range.to : now;
+  const counts = new Map<LinkStatus, number>();
+  links.filter(link => link.createdAt <= range.to).forEach(link => {
+    const status = getLinkStatus(link, asOf);
+    counts.set(status, (counts.get(status) ?? 0) + 1);
+  });
+
+  return (Object.keys(STATUS_LABELS) as LinkStatus[])
+    .map(status => ({
+      name: STATUS_LABELS[status],
+      value: counts.get(status) ?? 0,
+      color: STATUS_COLORS[status],
+    }))
+    .filter(slice => slice.value > 0);
+}
+
+export function getTopLinks(
+  links: Link[],
+  clicks: ClickEvent[],
+  range: AnalyticsRange,
+  limit = 5,
+  now: Date = new Date()
+): TopLink[] {
+  const counts = new Map<string, number>();
+  filterClicks(clicks, range).forEach(click => counts.set(click.linkId, (counts.get(click.linkId) ?? 0) + 1));
+
+  return links
+    .map(link => ({
+      id: link.id,
+      title: link.title,
+      clicks: counts.get(link.id) ?? 0,
+      status: getLinkStatus(link, now),
+    }))
+    .filter(link => link.clicks > 0)
+    .sort((a, b) => b.clicks - a.clicks)
+    .slice(0, limit);
+}
+
+// 7 x 24 grid of click counts, indexed by day of week (Sunday first) then hour
+export function getHourlyHeatmap(clicks: ClickEvent[]): number[][] {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  clicks.forEach(click => {
+    grid[click.timestamp.getDay()][click.timestamp.getHours()] += 1;
+  });
+  return grid;
+}
+
+function countBy(clicks: ClickEvent[], key: (click: ClickEvent) => string): BreakdownEntry[] {
+  const counts = new Map<string, number>();
+  clicks.forEach(click => {
+    const name = key(click);
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+  return Array.from(counts, ([name, value]) => ({ name, value })).sort((a, b) => b.value - a.value);
+}
+
+export function getReferrerBreakdown(clicks: ClickEvent[]): BreakdownEntry[] {
+  return countBy(clicks, click => getReferrerSource(click.referrer));
+}
+
+export function getDeviceBreakdown(clicks: ClickEvent[]): BreakdownEntry[] {
+  return countBy(clicks, click => click.device.charAt(0).toUpperCase() + click.device.slice(1));
+}
@@ -0,0 +1,114 @@
+import { DetectedCode } from './code-detection';
+import { toCsv } from './link-export';
+
+export type BatchStatus = 'queued' | 'scanning' | 'decoded' | 'not-found' | 'timed-out' | 'failed';
+
+// One image waiting in, or done with, the batch queue
+export interface BatchItem {
+  id: string;
+  file: File;
+  // Path inside the dropped folder, or just the file name
+  path: string;
+  status: BatchStatus;
+  codes: DetectedCode[];
+}
+
+// A line of the results table: one per code found, or one for an image that yielded none
+export interface BatchRow {
+  id: string;
+  fileName: string;
+  format: string;
+  payload: string;
+  status: BatchStatus;
+}
+
+export type BatchColumn = keyof Omit<BatchRow, 'id'>;
+
+export interface BatchSort {
+  column: BatchColumn;
+  direction: 'asc' | 'desc';
+}
+
+export const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: 'Queued',
+  scanning: 'Scanning',
+  decoded: 'Decoded',
+  'not-found': 'No code found',
+  'timed-out': 'Timed out',
+  failed: 'Failed',
+};
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+export const isFinished = (item: BatchItem) => item.status !== 'queued' && item.status !== 'scanning';
+
+// Browsers hand out directory contents in chunks, so keep reading until one comes back empty
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (chunk.length === 0) return entries;
+    entries.push(...chunk);
+  }
+}
+
+async function collectEntry(entry: FileSystemEntry, files: { file: File; path: string }[]) {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    files.push({ file, path: entry.fullPath.replace(/^\//, '') });
+  } else if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await collectEntry(child, files);
+    }
+  }
+}
+
+// Every file in a drop, walking into dropped folders. The entries have to be taken from the
+// event straight away, before the browser clears the data transfer.
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<{ file: File; path: string }[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.());
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return Array.from(dataTransfer.files).map(file => ({ file, path: file.name }));
+  }
+
+  const files: { file: File; path: string }[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry, files);
+  }
+  return files;
+}
+
+export function toBatchRows(items: BatchItem[]): BatchRow[] {
+  return items.flatMap((item) => {
+    if (item.codes.length === 0) {
+      return [{ id: item.id, fileName: item.path, format: '', payload: '', status: item.status }];
+    }
+    return item.codes.map((code, index) => ({
+      id: `${item.id}:${index}`,
+      fileName: item.path,
+      format: code.format,
+      payload: code.data,
+      status: item.status,
+    }));
+  });
+}
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+// Natural order, so IMG_2 comes before IMG_10; ties keep their queue order
+export function sortBatchRows(rows: BatchRow[], sort: BatchSort | null): BatchRow[] {
+  if (!sort) return rows;
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  const value = (row: BatchRow) => (sort.column === 'status' ? BATCH_STATUS_LABELS[row.status] : row[sort.column]);
+  return [...rows].sort((a, b) => sign * compareText(value(a), value(b)));
+}
+
+export function exportBatchCsv(rows: BatchRow[]): string {
+  return toCsv(
+    ['File', 'Format', 'Payload', 'Status'],
+    rows.map(row => [row.fileName, row.format, row.payload, BATCH_STATUS_LABELS[row.status]])
+  );
+}
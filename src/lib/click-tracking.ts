@@ -0,0 +1,45 @@
+import { ClickMetadata, DeviceClass } from './link-repository';
+
+const TABLET_BREAKPOINT = 1024;
+const MOBILE_BREAKPOINT = 768;
+
+// Classify the visitor's device from the user agent, falling back to viewport width
+export function getDeviceClass(userAgent: string, viewportWidth: number): DeviceClass {
+  if (/iPad|Tablet|PlayBook|Silk|Kindle/i.test(userAgent) || (/Android/i.test(userAgent) && !/Mobile/i.test(userAgent))) {
+    return 'tablet';
+  }
+  if (/Mobi|iPhone|iPod|Android|BlackBerry|IEMobile|Opera Mini/i.test(userAgent)) {
+    return 'mobile';
+  }
+  if (viewportWidth > 0 && viewportWidth < MOBILE_BREAKPOINT) {
+    return 'mobile';
+  }
+  if (viewportWidth > 0 && viewportWidth < TABLET_BREAKPOINT && navigator.maxTouchPoints > 0) {
+    return 'tablet';
+  }
+  return 'desktop';
+}
+
+// Capture what we know about the current visit from the browser
+export function collectClickMetadata(): ClickMetadata {
+  const userAgent = navigator.userAgent;
+  const viewport = { width: window.innerWidth, height: window.innerHeight };
+
+  return {
+    referrer: document.referrer,
+    userAgent,
+    language: navigator.language,
+    viewport,
+    device: getDeviceClass(userAgent, viewport.width),
+  };
+}
+
+// Human readable referrer source, e.g. "twitter.com" or "Direct"
+export function getReferrerSource(referrer: string): string {
+  if (!referrer) return 'Direct';
+  try {
+    return new URL(referrer).hostname.replace(/^www\./, '');
+  } catch {
+    return 'Unknown';
+  }
+}
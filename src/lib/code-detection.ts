@@ -0,0 +1,240 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  Result,
+  RGBLuminanceSource,
+} from '@zxing/library';
+
+// Position of a code in the image, as fractions of the image size so it can be drawn at any scale
+export interface CodeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedCode {
+  data: string;
+  format: string;
+  box?: CodeBox;
+  // The preprocessing step that made the code readable, when the plain image wasn't enough
+  transform?: string;
+}
+
+// One byte of brightness per pixel, the form ZXing reads and the preprocessing steps work on
+export interface LuminanceImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Codes are found well below this size, and full-resolution photos are slow to scan
+export const MAX_DECODE_DIMENSION = 2048;
+
+// Enough for a busy shipping label without looping forever on a noisy photo
+const MAX_CODES = 20;
+
+const FORMAT_LABELS: Partial<Record<BarcodeFormat, string>> = {
+  [BarcodeFormat.QR_CODE]: 'QR Code',
+  [BarcodeFormat.DATA_MATRIX]: 'Data Matrix',
+  [BarcodeFormat.AZTEC]: 'Aztec',
+  [BarcodeFormat.PDF_417]: 'PDF417',
+  [BarcodeFormat.MAXICODE]: 'MaxiCode',
+};
+
+export const getFormatLabel = (format: BarcodeFormat) =>
+  FORMAT_LABELS[format] ?? BarcodeFormat[format].replace(/_/g, ' ');
+
+// Same weighting as ZXing's own RGB conversion
+export function toLuminance(image: ImageData): LuminanceImage {
+  const { data, width, height } = image;
+  const luminance = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    const offset = i * 4;
+    luminance[i] = (data[offset] + 2 * data[offset + 1] + data[offset + 2]) >> 2;
+  }
+  return { data: luminance, width, height };
+}
+
+// Draw a decoded image onto a canvas, scaled down to MAX_DECODE_DIMENSION. Uses an
+// OffscreenCanvas so it works inside the decode workers.
+export async function loadImageData(source: Blob): Promise<ImageData> {
+  const bitmap = await createImageBitmap(source);
+  const scale = Math.min(1, MAX_DECODE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return context.getImageData(0, 0, width, height);
+}
+
+// Trying harder scans every row and a rotated copy for barcodes, which is worth it once per image
+// but too slow to repeat for every tile
+function createReader(tryHarder: boolean): MultiFormatReader {
+  const reader = new MultiFormatReader();
+  reader.setHints(tryHarder ? new Map<DecodeHintType, unknown>([[DecodeHintType.TRY_HARDER, true]]) : null);
+  return reader;
+}
+
+function decodeOnce(reader: MultiFormatReader, image: LuminanceImage): Result | null {
+  const source = new RGBLuminanceSource(image.data, image.width, image.height);
+  try {
+    return reader.decodeWithState(new BinaryBitmap(new HybridBinarizer(source)));
+  } catch {
+    // ZXing reports "nothing here" by throwing
+    return null;
+  } finally {
+    reader.reset();
+  }
+}
+
+interface PixelBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Result points mark finder patterns for 2D codes and the scan line for barcodes, so grow
+// them into a box that covers the whole symbol
+function getPixelBox(result: Result, image: LuminanceImage): PixelBox | null {
+  const points = result.getResultPoints()?.filter(Boolean) ?? [];
+  if (points.length === 0) return null;
+
+  const xs = points.map(point => point.getX());
+  const ys = points.map(point => point.getY());
+  let left = Math.min(...xs);
+  let right = Math.max(...xs);
+  let top = Math.min(...ys);
+  let bottom = Math.max(...ys);
+
+  const size = Math.max(right - left, bottom - top, 8);
+  const padX = size * 0.25;
+  // A barcode's points lie on one row, so cover a band above and below it
+  const padY = bottom - top < size * 0.1 ? size * 0.2 : size * 0.25;
+  left = Math.max(0, left - padX);
+  right = Math.min(image.width, right + padX);
+  top = Math.max(0, top - padY);
+  bottom = Math.min(image.height, bottom + padY);
+  return { left, top, right, bottom };
+}
+
+// Paint a region white so the next pass finds a different code
+function blank(image: LuminanceImage, box: PixelBox) {
+  for (let y = Math.floor(box.top); y < Math.ceil(box.bottom); y++) {
+    image.data.fill(255, y * image.width + Math.floor(box.left), y * image.width + Math.ceil(box.right));
+  }
+}
+
+const union = (a: PixelBox, b: PixelBox): PixelBox => ({
+  left: Math.min(a.left, b.left),
+  top: Math.min(a.top, b.top),
+  right: Math.max(a.right, b.right),
+  bottom: Math.max(a.bottom, b.bottom),
+});
+
+const toCodeBox = (box: PixelBox, image: LuminanceImage): CodeBox => ({
+  x: box.left / image.width,
+  y: box.top / image.height,
+  width: (box.right - box.left) / image.width,
+  height: (box.bottom - box.top) / image.height,
+});
+
+type FoundCode = { data: string; format: BarcodeFormat; box: PixelBox | null };
+
+// Copy part of the image out so it can be decoded on its own
+function crop(image: LuminanceImage, region: PixelBox): LuminanceImage {
+  const width = region.right - region.left;
+  const height = region.bottom - region.top;
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const start = (region.top + y) * image.width + region.left;
+    data.set(image.data.subarray(start, start + width), y * width);
+  }
+  return { data, width, height };
+}
+
+// Decode one region over and over, blanking each hit in the full image, until it yields nothing new
+function scanRegion(reader: MultiFormatReader, image: LuminanceImage, region: PixelBox, found: FoundCode[], multiple: boolean) {
+  for (let pass = 0; pass < MAX_CODES && found.length < MAX_CODES; pass++) {
+    const tile = region.left === 0 && region.top === 0 && region.right === image.width && region.bottom === image.height
+      ? image
+      : crop(image, region);
+    const result = decodeOnce(reader, tile);
+    if (!result) return;
+
+    const tileBox = getPixelBox(result, tile);
+    const box = tileBox && {
+      left: tileBox.left + region.left,
+      top: tileBox.top + region.top,
+      right: tileBox.right + region.left,
+      bottom: tileBox.bottom + region.top,
+    };
+    const existing = found.find(code => code.data === result.getText() && code.format === result.getBarcodeFormat());
+    if (existing) {
+      // The same barcode read again on another row: widen its box rather than listing it twice
+      if (!box) return;
+      existing.box = existing.box ? union(existing.box, box) : box;
+    } else {
+      found.push({ data: result.getText(), format: result.getBarcodeFormat(), box });
+    }
+
+    if (!multiple || !box) return;
+    blank(image, box);
+  }
+}
+
+// Smallest tile worth decoding on its own
+const MIN_TILE_SIZE = 96;
+
+// Overlapping tiles, each two thirds, half and two fifths of the image, so every code of up
+// to half a tile fits wholly inside one of them
+function* tiles(image: LuminanceImage): Generator<PixelBox> {
+  for (let count = 2; count <= 4; count++) {
+    const width = Math.round((image.width * 2) / (count + 1));
+    const height = Math.round((image.height * 2) / (count + 1));
+    if (Math.min(width, height) < MIN_TILE_SIZE) return;
+    for (let row = 0; row < count; row++) {
+      for (let column = 0; column < count; column++) {
+        const left = Math.round((column * width) / 2);
+        const top = Math.round((row * height) / 2);
+        yield { left, top, right: Math.min(image.width, left + width), bottom: Math.min(image.height, top + height) };
+      }
+    }
+  }
+}
+
+// Find the first code, or every code when `multiple` is set. ZXing decodes one symbol per pass
+// and gets confused by several in view, so each hit is blanked out and the image scanned again,
+// and smaller overlapping tiles pick up codes the full-size passes missed. Every new code clears
+// up the view for the rest, so the rounds repeat until one turns up nothing.
+export function detectCodes(image: LuminanceImage, multiple = false): DetectedCode[] {
+  const working = { ...image, data: new Uint8ClampedArray(image.data) };
+  const found: FoundCode[] = [];
+  const fullReader = createReader(true);
+  const tileReader = createReader(false);
+  const full = { left: 0, top: 0, right: image.width, bottom: image.height };
+
+  let before: number;
+  do {
+    before = found.length;
+    scanRegion(fullReader, working, full, found, multiple);
+    if (!multiple) break;
+    for (const tile of tiles(working)) {
+      if (found.length >= MAX_CODES) break;
+      scanRegion(tileReader, working, tile, found, multiple);
+    }
+  } while (found.length > before && found.length < MAX_CODES);
+
+  return found.map(code => ({
+    data: code.data,
+    format: getFormatLabel(code.format),
+    box: code.box ? toCodeBox(code.box, image) : undefined,
+  }));
+}
@@ -0,0 +1,165 @@
+import { DetectedCode } from './code-detection';
+
+export interface DecodeRequest {
+  id: number;
+  image: Blob;
+  multiple: boolean;
+}
+
+export type DecodeResponse = { id: number; codes: DetectedCode[] } | { id: number; error: string };
+
+export interface DecodeOptions {
+  // Look for every code in the image rather than stopping at the first
+  multiple?: boolean;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Called when a worker picks the image up, after any wait in the queue
+  onStart?: () => void;
+}
+
+// Thrown when a decode is cancelled through its AbortSignal
+export class DecodeCancelledError extends Error {
+  constructor() {
+    super('The scan was cancelled');
+    this.name = 'DecodeCancelledError';
+  }
+}
+
+// Thrown when a worker takes longer than the allowed time over one image
+export class DecodeTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`The scan took longer than ${Math.round(timeoutMs / 1000)} seconds`);
+    this.name = 'DecodeTimeoutError';
+  }
+}
+
+// A readable code turns up in well under a second, but an image that needs the whole
+// preprocessing ladder is decoded a dozen times, and many more when looking for every code
+export const DECODE_TIMEOUT_MS = 30_000;
+export const MULTIPLE_DECODE_TIMEOUT_MS = 90_000;
+
+// More workers mostly compete for memory; the pool also leaves one core free for the page
+const MAX_WORKERS = 4;
+
+interface DecodeJob {
+  id: number;
+  request: DecodeRequest;
+  options: DecodeOptions;
+  resolve: (codes: DetectedCode[]) => void;
+  reject: (error: Error) => void;
+  onAbort?: () => void;
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  job: DecodeJob | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Runs image decoding in a small pool of workers so big photos and batch scans never block the
+// page. Jobs wait in a queue for a free worker, and each one can be cancelled or time out.
+class DecodeWorkerPool {
+  private slots: WorkerSlot[] = [];
+  private queue: DecodeJob[] = [];
+  private nextId = 0;
+
+  get size(): number {
+    return Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+  }
+
+  decode(image: Blob, options: DecodeOptions = {}): Promise<DetectedCode[]> {
+    if (options.signal?.aborted) return Promise.reject(new DecodeCancelledError());
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      const job: DecodeJob = { id, request: { id, image, multiple: !!options.multiple }, options, resolve, reject };
+      if (options.signal) {
+        job.onAbort = () => this.cancel(job);
+        options.signal.addEventListener('abort', job.onAbort, { once: true });
+      }
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const slot = this.slots.find(candidate => !candidate.job) ?? (this.slots.length < this.size ? this.spawn() : null);
+      if (!slot) return;
+
+      const job = this.queue.shift();
+      // Cancelling a running job frees its slot before the abort reaches the jobs queued behind it
+      if (job.options.signal?.aborted) {
+        job.reject(new DecodeCancelledError());
+        continue;
+      }
+      const timeoutMs = job.options.timeoutMs ?? (job.request.multiple ? MULTIPLE_DECODE_TIMEOUT_MS : DECODE_TIMEOUT_MS);
+      slot.job = job;
+      slot.timer = setTimeout(() => this.fail(slot, new DecodeTimeoutError(timeoutMs)), timeoutMs);
+      slot.worker.postMessage(job.request);
+      job.options.onStart?.();
+    }
+  }
+
+  private spawn(): WorkerSlot {
+    const slot: WorkerSlot = {
+      worker: new Worker(new URL('./decode.worker.ts', import.meta.url), { type: 'module' }),
+      job: null,
+      timer: null,
+    };
+    slot.worker.onmessage = (event: MessageEvent<DecodeResponse>) => {
+      const job = slot.job;
+      // A reply for a job that already timed out or was cancelled
+      if (!job || job.id !== event.data.id) return;
+      this.release(slot);
+      if ('error' in event.data) {
+        job.reject(new Error(event.data.error));
+      } else {
+        job.resolve(event.data.codes);
+      }
+      this.dispatch();
+    };
+    slot.worker.onerror = (event) => {
+      event.preventDefault();
+      this.fail(slot, new Error(event.message || 'The decode worker stopped unexpectedly'));
+    };
+    this.slots.push(slot);
+    return slot;
+  }
+
+  // Free the slot and forget the job's abort listener
+  private release(slot: WorkerSlot): void {
+    if (slot.timer) clearTimeout(slot.timer);
+    slot.timer = null;
+    const job = slot.job;
+    slot.job = null;
+    if (job?.onAbort) job.options.signal?.removeEventListener('abort', job.onAbort);
+  }
+
+  // ZXing decodes synchronously, so the only way to stop a running job is to throw its worker away
+  private fail(slot: WorkerSlot, error: Error): void {
+    const job = slot.job;
+    this.release(slot);
+    slot.worker.terminate();
+    this.slots = this.slots.filter(candidate => candidate !== slot);
+    job?.reject(error);
+    this.dispatch();
+  }
+
+  private cancel(job: DecodeJob): void {
+    const slot = this.slots.find(candidate => candidate.job === job);
+    if (slot) {
+      this.fail(slot, new DecodeCancelledError());
+      return;
+    }
+
+    const index = this.queue.indexOf(job);
+    if (index === -1) return;
+    this.queue.splice(index, 1);
+    if (job.onAbort) job.options.signal?.removeEventListener('abort', job.onAbort);
+    job.reject(new DecodeCancelledError());
+  }
+}
+
+// Export a singleton instance
+export const decodePool = new DecodeWorkerPool();
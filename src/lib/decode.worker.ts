@@ -0,0 +1,17 @@
+import { loadImageData } from './code-detection';
+import { detectCodesWithPreprocessing } from './image-preprocessing';
+// Types only, so the pool itself stays out of the worker bundle
+import type { DecodeRequest, DecodeResponse } from './decode-pool';
+
+// Decodes images off the main thread; see decodePool for how jobs are handed out
+const respond = (response: DecodeResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<DecodeRequest>) => {
+  const { id, image, multiple } = event.data;
+  try {
+    const codes = detectCodesWithPreprocessing(await loadImageData(image), multiple);
+    respond({ id, codes });
+  } catch (error) {
+    respond({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
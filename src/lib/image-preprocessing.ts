@@ -0,0 +1,193 @@
+import { CodeBox, DetectedCode, detectCodes, LuminanceImage, MAX_DECODE_DIMENSION, toLuminance } from './code-detection';
+
+// One rung of the retry ladder: a reworked copy of the image to decode, or null when the
+// transform would change nothing, plus how to map a box found in it back onto the original
+interface PreprocessStep {
+  label: string;
+  apply: (image: ImageData, luminance: LuminanceImage) => LuminanceImage | null;
+  mapBox?: (box: CodeBox) => CodeBox;
+}
+
+const create = (width: number, height: number): LuminanceImage => ({
+  data: new Uint8ClampedArray(width * height),
+  width,
+  height,
+});
+
+const map = (image: LuminanceImage, transform: (value: number) => number): LuminanceImage => {
+  const result = create(image.width, image.height);
+  for (let i = 0; i < image.data.length; i++) result.data[i] = transform(image.data[i]);
+  return result;
+};
+
+// The darkest channel rather than a weighted average, which brings out codes printed in
+// colour, e.g. blue ink on a yellow label. Pointless for images that are grey already.
+function grayscale(image: ImageData): LuminanceImage | null {
+  const { data, width, height } = image;
+  const result = create(width, height);
+  let coloured = false;
+  for (let i = 0; i < result.data.length; i++) {
+    const offset = i * 4;
+    const [red, green, blue] = [data[offset], data[offset + 1], data[offset + 2]];
+    coloured ||= red !== green || green !== blue;
+    result.data[i] = Math.min(red, green, blue);
+  }
+  return coloured ? result : null;
+}
+
+// Black or white by comparison with the average of the surrounding block, which copes with
+// shadows and glare across the image better than one global cut-off
+function adaptiveThreshold(image: LuminanceImage): LuminanceImage {
+  const { data, width, height } = image;
+  // Running sums so every block average costs four lookups
+  const sums = new Uint32Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += data[y * width + x];
+      sums[(y + 1) * (width + 1) + x + 1] = sums[y * (width + 1) + x + 1] + row;
+    }
+  }
+
+  const radius = Math.max(7, Math.round(Math.min(width, height) / 16));
+  const result = create(width, height);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const total = sums[bottom * (width + 1) + right] - sums[top * (width + 1) + right]
+        - sums[bottom * (width + 1) + left] + sums[top * (width + 1) + left];
+      const mean = total / ((bottom - top) * (right - left));
+      // A little below the mean, so flat areas come out white rather than as noise
+      result.data[y * width + x] = data[y * width + x] < mean - 7 ? 0 : 255;
+    }
+  }
+  return result;
+}
+
+// Spread the middle 98% of brightness values over the full range, for faded or washed-out prints
+function contrastStretch(image: LuminanceImage): LuminanceImage | null {
+  const histogram = new Uint32Array(256);
+  image.data.forEach(value => histogram[value]++);
+
+  const cut = image.data.length * 0.01;
+  let low = 0;
+  for (let count = 0; low < 255 && count + histogram[low] <= cut; low++) count += histogram[low];
+  let high = 255;
+  for (let count = 0; high > 0 && count + histogram[high] <= cut; high--) count += histogram[high];
+
+  if (high <= low || (low === 0 && high === 255)) return null;
+  const scale = 255 / (high - low);
+  return map(image, value => (value - low) * scale);
+}
+
+// Light codes on a dark background, which the decoders don't look for themselves
+const invert = (image: LuminanceImage) => map(image, value => 255 - value);
+
+// A 3×3 sharpening kernel for slightly blurred photos; the border is kept as it is
+function sharpen(image: LuminanceImage): LuminanceImage {
+  const { data, width, height } = image;
+  const result = create(width, height);
+  result.data.set(data);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      result.data[i] = 5 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width];
+    }
+  }
+  return result;
+}
+
+// Turn the image clockwise by a number of quarter turns
+function rotate(image: LuminanceImage, turns: 1 | 2 | 3): LuminanceImage {
+  const { data, width, height } = image;
+  const result = turns === 2 ? create(width, height) : create(height, width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [toX, toY] = turns === 1
+        ? [height - 1 - y, x]
+        : turns === 2 ? [width - 1 - x, height - 1 - y] : [y, width - 1 - x];
+      result.data[toY * result.width + toX] = data[y * width + x];
+    }
+  }
+  return result;
+}
+
+// The inverse of each rotation for boxes, which are fractions of the image size
+const ROTATED_BOXES: Record<1 | 2 | 3, (box: CodeBox) => CodeBox> = {
+  1: box => ({ x: box.y, y: 1 - box.x - box.width, width: box.height, height: box.width }),
+  2: box => ({ x: 1 - box.x - box.width, y: 1 - box.y - box.height, width: box.width, height: box.height }),
+  3: box => ({ x: 1 - box.y - box.height, y: box.x, width: box.height, height: box.width }),
+};
+
+// Bilinear resampling; boxes need no mapping as they are fractions of the size
+function resize(image: LuminanceImage, scale: number): LuminanceImage | null {
+  const width = Math.round(image.width * scale);
+  const height = Math.round(image.height * scale);
+  if (Math.min(width, height) < 32 || Math.max(width, height) > MAX_DECODE_DIMENSION) return null;
+
+  const result = create(width, height);
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(image.height - 1, Math.max(0, (y + 0.5) / scale - 0.5));
+    const y0 = Math.floor(sourceY);
+    const y1 = Math.min(image.height - 1, y0 + 1);
+    const fy = sourceY - y0;
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(image.width - 1, Math.max(0, (x + 0.5) / scale - 0.5));
+      const x0 = Math.floor(sourceX);
+      const x1 = Math.min(image.width - 1, x0 + 1);
+      const fx = sourceX - x0;
+      const top = image.data[y0 * image.width + x0] * (1 - fx) + image.data[y0 * image.width + x1] * fx;
+      const bottom = image.data[y1 * image.width + x0] * (1 - fx) + image.data[y1 * image.width + x1] * fx;
+      result.data[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return result;
+}
+
+// Tried in this order until one of them works
+const PREPROCESS_STEPS: PreprocessStep[] = [
+  { label: 'Grayscale', apply: image => grayscale(image) },
+  { label: 'Adaptive threshold', apply: (_, luminance) => adaptiveThreshold(luminance) },
+  { label: 'Contrast stretch', apply: (_, luminance) => contrastStretch(luminance) },
+  { label: 'Inverted colours', apply: (_, luminance) => invert(luminance) },
+  { label: 'Sharpened', apply: (_, luminance) => sharpen(luminance) },
+  ...([1, 2, 3] as const).map(turns => ({
+    label: `Rotated ${turns * 90}°`,
+    apply: (_: ImageData, luminance: LuminanceImage) => rotate(luminance, turns),
+    mapBox: ROTATED_BOXES[turns],
+  })),
+  { label: 'Downscaled', apply: (_, luminance) => resize(luminance, 0.5) },
+  // Up to twice the size within the decode limit, which helps tiny codes in small images
+  {
+    label: 'Upscaled',
+    apply: (_, luminance) => {
+      const scale = Math.min(2, MAX_DECODE_DIMENSION / Math.max(luminance.width, luminance.height));
+      return scale > 1.25 ? resize(luminance, scale) : null;
+    },
+  },
+];
+
+// Decode as is, and when nothing turns up try each preprocessing step in turn until one
+// reveals a code. Codes found that way say which step it was.
+export function detectCodesWithPreprocessing(image: ImageData, multiple = false): DetectedCode[] {
+  const luminance = toLuminance(image);
+  const codes = detectCodes(luminance, multiple);
+  if (codes.length > 0) return codes;
+
+  for (const step of PREPROCESS_STEPS) {
+    const transformed = step.apply(image, luminance);
+    if (!transformed) continue;
+    const found = detectCodes(transformed, multiple);
+    if (found.length > 0) {
+      return found.map(code => ({
+        ...code,
+        box: code.box && step.mapBox ? step.mapBox(code.box) : code.box,
+        transform: step.label,
+      }));
+    }
+  }
+  return [];
+}
@@ -0,0 +1,37 @@
+import { CodeBox } from './code-detection';
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// Small regions are enlarged so every module of a tiny code spans a few pixels
+const MIN_REGION_SIZE = 1024;
+const MAX_REGION_SCALE = 4;
+
+export const rotateBy = (rotation: Rotation, degrees: 90 | -90): Rotation =>
+  ((rotation + degrees + 360) % 360) as Rotation;
+
+// Turn the image clockwise by `rotation`, then cut out `region`, given as fractions of the turned
+// image, or keep all of it when there is no region
+export async function renderRegion(source: Blob, rotation: Rotation, region: CodeBox | null): Promise<Blob> {
+  const bitmap = await createImageBitmap(source);
+  const sideways = rotation === 90 || rotation === 270;
+  const turnedWidth = sideways ? bitmap.height : bitmap.width;
+  const turnedHeight = sideways ? bitmap.width : bitmap.height;
+
+  const area = region ?? { x: 0, y: 0, width: 1, height: 1 };
+  const cropWidth = area.width * turnedWidth;
+  const cropHeight = area.height * turnedHeight;
+  const scale = region
+    ? Math.min(MAX_REGION_SCALE, Math.max(1, MIN_REGION_SIZE / Math.max(cropWidth, cropHeight)))
+    : 1;
+
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(cropWidth * scale)), Math.max(1, Math.round(cropHeight * scale)));
+  const context = canvas.getContext('2d');
+  context.imageSmoothingQuality = 'high';
+  // Move the region's corner to the origin, then turn the image about its own centre
+  context.scale(scale, scale);
+  context.translate(turnedWidth / 2 - area.x * turnedWidth, turnedHeight / 2 - area.y * turnedHeight);
+  context.rotate((rotation * Math.PI) / 180);
+  context.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+  bitmap.close();
+  return canvas.convertToBlob({ type: 'image/png' });
+}
@@ -0,0 +1,262 @@
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { AUDITED_FIELDS, ClickEvent, Link, LinkSnapshot } from './link-repository';
+import { getLinkStatus } from './link-status';
+import { REDIRECT_MODES } from './redirect-mode';
+import { TAG_SEPARATOR } from './link-import';
+
+export const BACKUP_FORMAT = 'linkexpiry-backup';
+// Bump when the backup layout changes and teach parseBackup to upgrade older files
+export const BACKUP_VERSION = 2;
+
+export interface LinkBackup extends LinkSnapshot {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: Date;
+}
+
+type CsvValue = string | number | Date | undefined;
+
+// Quote every cell that needs it, and defuse values a spreadsheet would run as a formula
+const toCsvCell = (value: CsvValue) => {
+  if (value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(toCsvCell).join(',')).join('\r\n');
+}
+
+// Column names line up with what the bulk import accepts, so an export can be imported again
+const LINK_COLUMNS = [
+  'title',
+  'originalUrl',
+  'shortUrl',
+  'description',
+  'folder',
+  'tags',
+  'status',
+  'clicks',
+  'maxClicks',
+  'createdAt',
+  'activatesAt',
+  'expiresAt',
+] as const;
+
+type LinkExportRow = Record<typeof LINK_COLUMNS[number], CsvValue>;
+
+// The public view of a link: no password hash and no edit history
+const toLinkRow = (link: Link, now: Date): LinkExportRow => ({
+  title: link.title,
+  originalUrl: link.originalUrl,
+  shortUrl: link.shortUrl,
+  description: link.description,
+  folder: link.folder,
+  tags: link.tags?.join(TAG_SEPARATOR),
+  status: getLinkStatus(link, now),
+  clicks: link.clicks,
+  maxClicks: link.maxClicks,
+  createdAt: link.createdAt,
+  activatesAt: link.activatesAt,
+  expiresAt: link.expiresAt,
+});
+
+export function exportLinksCsv(links: Link[], now: Date = new Date()): string {
+  return toCsv([...LINK_COLUMNS], links.map(link => {
+    const row = toLinkRow(link, now);
+    return LINK_COLUMNS.map(column => row[column]);
+  }));
+}
+
+export function exportLinksJson(links: Link[], now: Date = new Date()): string {
+  return JSON.stringify(links.map(link => toLinkRow(link, now)), null, 2);
+}
+
+const CLICK_COLUMNS = [
+  'id',
+  'linkId',
+  'shortUrl',
+  'timestamp',
+  'referrer',
+  'device',
+  'language',
+  'viewportWidth',
+  'viewportHeight',
+  'userAgent',
+] as const;
+
+type ClickExportRow = Record<typeof CLICK_COLUMNS[number], CsvValue>;
+
+const toClickRow = (click: ClickEvent, shortUrls: Map<string, string>): ClickExportRow => ({
+  id: click.id,
+  linkId: click.linkId,
+  shortUrl: shortUrls.get(click.linkId),
+  timestamp: click.timestamp,
+  referrer: click.referrer,
+  device: click.device,
+  language: click.language,
+  viewportWidth: click.viewport.width,
+  viewportHeight: click.viewport.height,
+  userAgent: click.userAgent,
+});
+
+const shortUrlsById = (links: Link[]) => new Map(links.map(link => [link.id, link.shortUrl]));
+
+export function exportClicksCsv(clicks: ClickEvent[], links: Link[]): string {
+  const shortUrls = shortUrlsById(links);
+  return toCsv([...CLICK_COLUMNS], clicks.map(click => {
+    const row = toClickRow(click, shortUrls);
+    return CLICK_COLUMNS.map(column => row[column]);
+  }));
+}
+
+export function exportClicksJson(clicks: ClickEvent[], links: Link[]): string {
+  const shortUrls = shortUrlsById(links);
+  return JSON.stringify(clicks.map(click => toClickRow(click, shortUrls)), null, 2);
+}
+
+export function createBackup(snapshot: LinkSnapshot): string {
+  const backup: LinkBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date(),
+    ...snapshot,
+  };
+  return JSON.stringify(backup, null, 2);
+}
+
+const DATE_FIELDS = ['activatesAt', 'expiresAt'];
+
+const fieldChangeSchema = z
+  .object({
+    field: z.enum(AUDITED_FIELDS),
+    from: z.union([z.string(), z.number()]).optional(),
+    to: z.union([z.string(), z.number()]).optional(),
+  })
+  // JSON turns dates into strings, so bring them back for the date fields
+  .transform(change => DATE_FIELDS.includes(change.field)
+    ? {
+      ...change,
+      from: change.from === undefined ? undefined : new Date(change.from),
+      to: change.to === undefined ? undefined : new Date(change.to),
+    }
+    : change);
+
+const linkSchema = z.object({
+  id: z.string().min(1),
+  originalUrl: z.string().min(1),
+  shortUrl: z.string().min(1),
+  title: z.string(),
+  description: z.string().optional(),
+  expiresAt: z.coerce.date(),
+  activatesAt: z.coerce.date().optional(),
+  createdAt: z.coerce.date(),
+  clicks: z.number().int().nonnegative(),
+  maxClicks: z.number().int().positive().optional(),
+  remindBefore: z.number().positive().optional(),
+  password: z.object({ salt: z.string(), hash: z.string(), iterations: z.number().int().positive() }).optional(),
+  redirectMode: z.enum(REDIRECT_MODES as [string, ...string[]]).optional(),
+  redirectDelay: z.number().positive().optional(),
+  tags: z.array(z.string()).optional(),
+  folder: z.string().optional(),
+  deletedAt: z.coerce.date().optional(),
+  history: z.array(z.object({ changedAt: z.coerce.date(), changes: z.array(fieldChangeSchema) })).optional(),
+});
+
+const clickSchema = z.object({
+  id: z.string().min(1),
+  linkId: z.string().min(1),
+  timestamp: z.coerce.date(),
+  referrer: z.string(),
+  userAgent: z.string(),
+  language: z.string(),
+  viewport: z.object({ width: z.number(), height: z.number() }),
+  device: z.enum(['mobile', 'tablet', 'desktop']),
+});
+
+const tombstoneSchema = z.object({
+  shortUrl: z.string().min(1),
+  linkId: z.string(),
+  title: z.string(),
+  deletedAt: z.coerce.date(),
+});
+
+const tagSchema = z.object({
+  name: z.string().min(1),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i),
+});
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int(),
+  exportedAt: z.coerce.date(),
+  links: z.array(linkSchema),
+  clicks: z.array(clickSchema),
+  tombstones: z.array(tombstoneSchema),
+  tags: z.array(tagSchema),
+});
+
+type RawBackup = Record<string, unknown> & { version: number };
+
+// Each step lifts a backup from the previous version to the one it is keyed by
+const BACKUP_UPGRADES: Record<number, (backup: RawBackup) => RawBackup> = {
+  // Version 2 added tags; some version 1 files written before the bump already carry them
+  2: backup => ({ ...backup, tags: backup.tags ?? [] }),
+};
+
+function upgradeBackup(backup: RawBackup): RawBackup {
+  let upgraded = backup;
+  for (let version = backup.version + 1; version <= BACKUP_VERSION; version++) {
+    const upgrade = BACKUP_UPGRADES[version];
+    if (!upgrade) {
+      throw new Error(`This backup file cannot be upgraded from version ${version - 1}.`);
+    }
+    upgraded = { ...upgrade(upgraded), version };
+  }
+  return upgraded;
+}
+
+// Read a backup file back into a snapshot, reviving dates along the way
+export function parseBackup(text: string): LinkBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The backup file is not valid JSON.');
+  }
+  if ((data as { format?: unknown })?.format !== BACKUP_FORMAT) {
+    throw new Error('This is not a LinkExpiry backup file.');
+  }
+  if ((data as { version?: number }).version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of LinkExpiry.');
+  }
+
+  const version = (data as { version?: unknown }).version;
+  if (Number.isInteger(version) && (version as number) < 1) {
+    throw new Error('This backup file has an unsupported version.');
+  }
+  const result = backupSchema.safeParse(Number.isInteger(version) ? upgradeBackup(data as RawBackup) : data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`The backup file is damaged (${issue.path.join('.')}: ${issue.message}).`);
+  }
+  return result.data as LinkBackup;
+}
+
+export const exportFileName = (name: string, extension: string) =>
+  `linkexpiry-${name}-${format(new Date(), 'yyyy-MM-dd-HHmm')}.${extension}`;
+
+// Hand the content to the browser as a file download
+export function downloadFile(content: string, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  // Revoking straight away can cancel the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,263 @@
+import { z } from 'zod';
+import { Link, LinkRepository, NewLink } from './link-repository';
+import { generateShortUrl, isShortUrlAvailable, validateAlias } from './short-url';
+import { validateDestination } from './url-validation';
+import { getDefaultTagColor, normalizeFolder, normalizeTagName } from './link-tags';
+
+export const MAX_IMPORT_ROWS = 500;
+// Tags share one CSV cell, e.g. "spring;email"
+export const TAG_SEPARATOR = ';';
+
+export type ImportFormat = 'csv' | 'json';
+
+export interface ImportedLink {
+  title: string;
+  url: string;
+  description: string;
+  expiry: Date;
+  alias?: string;
+  folder?: string;
+  tags: string[];
+}
+
+export interface ImportRow {
+  // 1-based line in a CSV file, or 1-based position in a JSON array
+  line: number;
+  // The row's values keyed by ImportedLink field, before validation
+  raw: Record<string, unknown>;
+  link?: ImportedLink;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportSkip {
+  line: number;
+  title: string;
+  reason: string;
+}
+
+export interface ImportReport {
+  created: Link[];
+  skipped: ImportSkip[];
+}
+
+// Accept the column names we export as well as the short ones in the docs
+const COLUMN_ALIASES: Record<string, keyof ImportedLink> = {
+  title: 'title',
+  url: 'url',
+  originalurl: 'url',
+  destination: 'url',
+  description: 'description',
+  expiry: 'expiry',
+  expiresat: 'expiry',
+  expires: 'expiry',
+  alias: 'alias',
+  shorturl: 'alias',
+  folder: 'folder',
+  tags: 'tags',
+};
+
+const importRowSchema = z.object({
+  title: z.string({ required_error: 'Title is required' }).trim().min(1, 'Title is required'),
+  url: z
+    .string({ required_error: 'URL is required' })
+    .trim()
+    .min(1, 'URL is required')
+    .transform((url, ctx) => {
+      const { url: normalized, errors } = validateDestination(url);
+      errors.forEach(message => ctx.addIssue({ code: z.ZodIssueCode.custom, message }));
+      return errors.length ? z.NEVER : normalized!;
+    }),
+  description: z.string().trim().optional().transform(description => description ?? ''),
+  expiry: z.coerce
+    .date({ errorMap: () => ({ message: 'Expiry must be a valid date' }) })
+    .refine(expiry => expiry > new Date(), 'Expiry must be in the future'),
+  alias: z
+    .string()
+    .trim()
+    .optional()
+    .transform(alias => alias || undefined)
+    .superRefine((alias, ctx) => {
+      const error = alias && validateAlias(alias);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }),
+  folder: z.string().optional().transform(normalizeFolder),
+  // A list in JSON, or one separated cell in CSV
+  tags: z
+    .union([z.array(z.string()), z.string()])
+    .optional()
+    .transform(tags => {
+      const names = (typeof tags === 'string' ? tags.split(TAG_SEPARATOR) : tags ?? []).map(normalizeTagName);
+      return [...new Set(names.filter(Boolean))];
+    }),
+});
+
+// RFC 4180 parser: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    cell = '';
+    recordLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      endRecord();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+const normalizeKeys = (record: Record<string, unknown>) => {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const field = COLUMN_ALIASES[key.trim().toLowerCase().replace(/[\s_-]/g, '')];
+    if (field && value !== '' && value !== null) {
+      normalized[field] = value;
+    }
+  }
+  return normalized;
+};
+
+function readRecords(text: string, format: ImportFormat): { line: number; raw: Record<string, unknown> }[] {
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+    // Allow both a bare array and an object wrapping it, e.g. { "links": [...] }
+    const items = Array.isArray(data) ? data : (data as { links?: unknown })?.links;
+    if (!Array.isArray(items)) {
+      throw new Error('Expected a JSON array of links.');
+    }
+    return items.map((item, index) => ({
+      line: index + 1,
+      raw: item && typeof item === 'object' ? (item as Record<string, unknown>) : {},
+    }));
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('The file is empty.');
+  }
+  return rows.map(({ line, cells }) => ({
+    line,
+    raw: Object.fromEntries(header.cells.map((name, index) => [name, cells[index] ?? ''])),
+  }));
+}
+
+export const detectFormat = (fileName: string, text: string): ImportFormat =>
+  /\.json$/i.test(fileName) || /^\s*[[{]/.test(text) ? 'json' : 'csv';
+
+// Parse and validate every row without touching the repository
+export function parseImport(text: string, format: ImportFormat): ImportRow[] {
+  const records = readRecords(text, format);
+  if (records.length === 0) {
+    throw new Error('The file does not contain any links.');
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_IMPORT_ROWS} links at a time.`);
+  }
+
+  const seenAliases = new Set<string>();
+  return records.map(({ line, raw: record }) => {
+    const raw = normalizeKeys(record);
+    const result = importRowSchema.safeParse(raw);
+    const warnings = typeof raw.url === 'string' ? validateDestination(raw.url).warnings : [];
+    if (!result.success) {
+      return { line, raw, errors: result.error.issues.map(issue => issue.message), warnings };
+    }
+
+    const link = result.data as ImportedLink;
+    if (link.alias) {
+      if (seenAliases.has(link.alias)) {
+        return { line, raw, errors: [`Alias "${link.alias}" is used more than once in this file.`], warnings };
+      }
+      seenAliases.add(link.alias);
+    }
+    return { line, raw, link, errors: [], warnings };
+  });
+}
+
+// Create every valid row in a single write, skipping rows whose alias is already taken
+export async function importLinks(repository: LinkRepository, rows: ImportRow[]): Promise<ImportReport> {
+  const skipped: ImportSkip[] = rows
+    .filter(row => !row.link)
+    .map(row => ({ line: row.line, title: String(row.raw.title ?? ''), reason: row.errors[0] }));
+
+  const inputs: NewLink[] = [];
+  const used = new Set<string>();
+  for (const { line, link } of rows) {
+    if (!link) continue;
+
+    let shortUrl = link.alias;
+    if (shortUrl) {
+      if (!(await isShortUrlAvailable(repository, shortUrl))) {
+        skipped.push({ line, title: link.title, reason: `Alias "${shortUrl}" is already in use.` });
+        continue;
+      }
+    } else {
+      do {
+        shortUrl = generateShortUrl();
+      } while (used.has(shortUrl) || !(await isShortUrlAvailable(repository, shortUrl)));
+    }
+    used.add(shortUrl);
+
+    inputs.push({
+      originalUrl: link.url,
+      shortUrl,
+      title: link.title,
+      description: link.description,
+      expiresAt: link.expiry,
+      folder: link.folder,
+      tags: link.tags,
+    });
+  }
+
+  const created = inputs.length ? await repository.createMany(inputs) : [];
+
+  // Save tags seen for the first time so they show up in the tag pickers like hand-made ones
+  const known = new Set((await repository.listTags()).map(tag => tag.name));
+  const newTags = [...new Set(created.flatMap(link => link.tags ?? []))].filter(name => !known.has(name));
+  for (const name of newTags) {
+    await repository.saveTag({ name, color: getDefaultTagColor(name) });
+  }
+  return { created, skipped: skipped.sort((a, b) => a.line - b.line) };
+}
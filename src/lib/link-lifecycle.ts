@@ -0,0 +1,173 @@
+import { Link } from './link-repository';
+import { EXPIRING_SOON_MS } from './link-status';
+import { getReminderAt } from './link-reminders';
+
+// 'trashed' and 'restored' are moves to and from the Trash; 'created' and 'deleted' are only
+// for links that are new or gone for good
+export type LifecycleEventType =
+  | 'created'
+  | 'activated'
+  | 'expiring-soon'
+  | 'reminder'
+  | 'expired'
+  | 'trashed'
+  | 'restored'
+  | 'deleted';
+
+export interface LifecycleEvent {
+  type: LifecycleEventType;
+  link: Link;
+  at: Date;
+}
+
+export type LifecycleListener = (event: LifecycleEvent) => void;
+
+// Where a link stands on its timeline; unlike LinkStatus this ignores click limits,
+// which change on visits rather than with time
+type Phase = 'scheduled' | 'active' | 'expiring-soon' | 'expired';
+
+const PHASE_ORDER: Phase[] = ['scheduled', 'active', 'expiring-soon', 'expired'];
+
+// The event fired on entering each phase; links start out scheduled, so it has none
+const PHASE_EVENTS: Record<Exclude<Phase, 'scheduled'>, LifecycleEventType> = {
+  active: 'activated',
+  'expiring-soon': 'expiring-soon',
+  expired: 'expired',
+};
+
+// Browsers fire longer timeouts immediately, so far-off transitions are reached in steps
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+function getPhase(link: Link, now: number): Phase {
+  const expiresAt = link.expiresAt.getTime();
+  if (now >= expiresAt) return 'expired';
+  if (link.activatesAt && now < link.activatesAt.getTime()) return 'scheduled';
+  if (expiresAt - now <= EXPIRING_SOON_MS) return 'expiring-soon';
+  return 'active';
+}
+
+// The next moment this link moves to a later phase, if any
+function getNextTransition(link: Link, now: number): number | undefined {
+  const expiresAt = link.expiresAt.getTime();
+  return [link.activatesAt?.getTime(), expiresAt - EXPIRING_SOON_MS, getReminderAt(link)?.getTime(), expiresAt]
+    .filter((time): time is number => time !== undefined && time > now)
+    .sort((a, b) => a - b)[0];
+}
+
+const sameTimeline = (a: Link, b: Link) =>
+  a.expiresAt.getTime() === b.expiresAt.getTime()
+  && a.activatesAt?.getTime() === b.activatesAt?.getTime()
+  && a.remindBefore === b.remindBefore;
+
+// Watches the live links and fires events at the exact moment each one activates,
+// starts expiring soon, reaches its reminder time or expires, plus when links are created, move in
+// or out of the Trash, or are deleted for good
+class LinkLifecycleScheduler {
+  private links = new Map<string, { link: Link; phase: Phase; reminded: boolean }>();
+  private trash = new Map<string, Link>();
+  private listeners = new Set<LifecycleListener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private synced = false;
+
+  subscribe(listener: LifecycleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Hand over the live links and the Trash whenever they change; the first call only sets the baseline
+  sync(links: Link[], trash: Link[] = []): void {
+    const now = Date.now();
+    const next = new Map(links.map(link => [link.id, link]));
+    const nextTrash = new Map(trash.map(link => [link.id, link]));
+
+    if (this.synced) {
+      this.links.forEach(({ link }, id) => {
+        if (next.has(id)) return;
+        if (nextTrash.has(id)) {
+          this.emit('trashed', nextTrash.get(id), now);
+        } else {
+          this.emit('deleted', link, now);
+        }
+      });
+      this.trash.forEach((link, id) => {
+        if (!next.has(id) && !nextTrash.has(id)) this.emit('deleted', link, now);
+      });
+      links.forEach((link) => {
+        if (this.links.has(link.id)) return;
+        this.emit(this.trash.has(link.id) ? 'restored' : 'created', link, now);
+      });
+    }
+    this.trash = nextTrash;
+
+    // Keep the last phase so a crossing that happened while timers were throttled still fires,
+    // unless an edit moved the link's dates
+    this.links = new Map(links.map((link) => {
+      const known = this.links.get(link.id);
+      const unchanged = known && sameTimeline(known.link, link);
+      // Reminders that came due while the app was closed still fire; listeners drop repeats
+      return [link.id, { link, phase: unchanged ? known.phase : getPhase(link, now), reminded: unchanged && known.reminded }];
+    }));
+    this.synced = true;
+    this.sweep();
+  }
+
+  // Emit an event for every phase a link has crossed since the last sweep, then wait for the next one
+  sweep(): void {
+    const now = Date.now();
+    this.links.forEach((entry) => {
+      const phase = getPhase(entry.link, now);
+      const from = PHASE_ORDER.indexOf(entry.phase);
+      const to = PHASE_ORDER.indexOf(phase);
+      for (const crossed of PHASE_ORDER.slice(from + 1, to + 1) as Exclude<Phase, 'scheduled'>[]) {
+        this.emit(PHASE_EVENTS[crossed], entry.link, now);
+      }
+      entry.phase = phase;
+
+      const reminderAt = getReminderAt(entry.link)?.getTime();
+      if (!entry.reminded && reminderAt !== undefined && now >= reminderAt) {
+        entry.reminded = true;
+        if (phase !== 'expired') this.emit('reminder', entry.link, now);
+      }
+    });
+    this.schedule(now);
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.links.clear();
+    this.trash.clear();
+    this.synced = false;
+  }
+
+  // Page timers are throttled in background tabs, so events there can arrive late; the
+  // lifecycle hook sweeps again as soon as the tab is visible
+  private schedule(now: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const transitions = [...this.links.values()]
+      .map(({ link }) => getNextTransition(link, now))
+      .filter((time): time is number => time !== undefined);
+    if (transitions.length === 0) return;
+
+    const delay = Math.min(Math.min(...transitions) - now, MAX_TIMEOUT_MS);
+    this.timer = setTimeout(() => this.sweep(), delay);
+  }
+
+  private emit(type: LifecycleEventType, link: Link, now: number): void {
+    const event: LifecycleEvent = { type, link, at: new Date(now) };
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in link lifecycle listener:', error);
+      }
+    });
+  }
+}
+
+// Export a singleton instance
+export const linkLifecycle = new LinkLifecycleScheduler();
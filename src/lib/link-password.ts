@@ -0,0 +1,96 @@
+export interface PasswordHash {
+  salt: string;
+  hash: string;
+  iterations: number;
+}
+
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const MAX_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const ATTEMPTS_KEY_PREFIX = 'linkexpiry:password-attempts:';
+
+interface AttemptState {
+  failures: number;
+  lockouts: number;
+  lockedUntil?: number;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+}
+
+// Salted PBKDF2 hash, safe to store alongside the link
+export async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return { salt: toBase64(salt), hash: toBase64(hash), iterations: ITERATIONS };
+}
+
+export async function verifyPassword(password: string, stored: PasswordHash): Promise<boolean> {
+  const expected = fromBase64(stored.hash);
+  const actual = await derive(password, fromBase64(stored.salt), stored.iterations);
+  if (actual.length !== expected.length) return false;
+
+  // Compare every byte so the time taken does not reveal where they differ
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) {
+    diff |= actual[i] ^ expected[i];
+  }
+  return diff === 0;
+}
+
+function readAttempts(linkId: string): AttemptState {
+  try {
+    const raw = localStorage.getItem(ATTEMPTS_KEY_PREFIX + linkId);
+    return raw ? JSON.parse(raw) : { failures: 0, lockouts: 0 };
+  } catch {
+    return { failures: 0, lockouts: 0 };
+  }
+}
+
+function writeAttempts(linkId: string, state: AttemptState) {
+  localStorage.setItem(ATTEMPTS_KEY_PREFIX + linkId, JSON.stringify(state));
+}
+
+// Milliseconds until another attempt is allowed for this link, 0 when unlocked
+export function getLockoutRemaining(linkId: string, now: number = Date.now()): number {
+  const { lockedUntil } = readAttempts(linkId);
+  return lockedUntil && lockedUntil > now ? lockedUntil - now : 0;
+}
+
+// Count a wrong password; every MAX_ATTEMPTS failures locks the link for twice as long as the last time
+export function recordFailedAttempt(linkId: string, now: number = Date.now()): { attemptsLeft: number; lockedFor: number } {
+  const state = readAttempts(linkId);
+  state.failures += 1;
+
+  if (state.failures >= MAX_ATTEMPTS) {
+    const lockedFor = BASE_LOCKOUT_MS * 2 ** state.lockouts;
+    writeAttempts(linkId, { failures: 0, lockouts: state.lockouts + 1, lockedUntil: now + lockedFor });
+    return { attemptsLeft: 0, lockedFor };
+  }
+
+  writeAttempts(linkId, { ...state, lockedUntil: undefined });
+  return { attemptsLeft: MAX_ATTEMPTS - state.failures, lockedFor: 0 };
+}
+
+export function clearAttempts(linkId: string) {
+  localStorage.removeItem(ATTEMPTS_KEY_PREFIX + linkId);
+}
@@ -0,0 +1,87 @@
+import { Link } from './link-repository';
+import { getLinkStatus, LinkStatus } from './link-status';
+
+export type LinkSortKey = 'created' | 'expiry' | 'clicks';
+export type SortDirection = 'asc' | 'desc';
+
+export interface LinkQuery {
+  search: string;
+  status: LinkStatus | 'all';
+  // Undefined shows links with any tag, or in any folder
+  tag?: string;
+  folder?: string;
+  sort: LinkSortKey;
+  direction: SortDirection;
+}
+
+export const DEFAULT_LINK_QUERY: LinkQuery = {
+  search: '',
+  status: 'all',
+  sort: 'created',
+  direction: 'desc',
+};
+
+export const LINK_SORT_LABELS: Record<LinkSortKey, string> = {
+  created: 'Created',
+  expiry: 'Expiry',
+  clicks: 'Clicks',
+};
+
+const SORT_VALUES: Record<LinkSortKey, (link: Link) => number> = {
+  created: link => link.createdAt.getTime(),
+  expiry: link => link.expiresAt.getTime(),
+  clicks: link => link.clicks,
+};
+
+// Every search term has to appear in the title, destination, alias, description, folder or tags
+const matchesSearch = (link: Link, search: string) => {
+  const haystack = [link.title, link.originalUrl, link.shortUrl, link.description ?? '', link.folder ?? '', ...(link.tags ?? [])]
+    .join(' ')
+    .toLowerCase();
+  return search
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(term => haystack.includes(term));
+};
+
+export function queryLinks(links: Link[], query: LinkQuery, now: Date = new Date()): Link[] {
+  const sortValue = SORT_VALUES[query.sort];
+  const sign = query.direction === 'asc' ? 1 : -1;
+  return links
+    .filter(link => query.status === 'all' || getLinkStatus(link, now) === query.status)
+    .filter(link => !query.tag || (link.tags ?? []).includes(query.tag))
+    .filter(link => !query.folder || link.folder === query.folder)
+    .filter(link => matchesSearch(link, query.search))
+    .sort((a, b) => sign * (sortValue(a) - sortValue(b)));
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  pageCount: number;
+}
+
+// Slice out one page, pulling the page number back in range when the list shrinks
+export function paginate<T>(items: T[], page: number, pageSize: number): Page<T> {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(page, 1), pageCount);
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    pageCount,
+  };
+}
+
+// Page numbers to show around the current page, with null marking a gap
+export function getPageNumbers(page: number, pageCount: number, siblings = 1): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let i = 1; i <= pageCount; i++) {
+    if (i === 1 || i === pageCount || Math.abs(i - page) <= siblings) {
+      pages.push(i);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
@@ -0,0 +1,88 @@
+import { addHours } from 'date-fns';
+import { Link } from './link-repository';
+
+export const MAX_REMINDER_HOURS = 24 * 30;
+
+// How far the Extend action on a reminder pushes the expiry
+export const REMINDER_EXTEND_HOURS = 24;
+
+// Posted by the service worker when the Extend action on a notification is clicked
+export const EXTEND_MESSAGE = 'linkexpiry:extend';
+
+const REMINDER_WORKER_URL = '/reminder-sw.js';
+const REMINDED_KEY_PREFIX = 'linkexpiry:reminded:';
+
+export const getReminderAt = (link: Pick<Link, 'expiresAt' | 'remindBefore'>) =>
+  link.remindBefore ? addHours(link.expiresAt, -link.remindBefore) : undefined;
+
+// Extend from the current expiry, or from now when the link has already run out
+export const getExtendedExpiry = (expiresAt: Date, hours: number, now: Date = new Date()) =>
+  addHours(expiresAt > now ? expiresAt : now, hours);
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+// The worker shows notifications with an Extend action and keeps them clickable while the tab is in the background
+export async function registerReminderWorker(): Promise<ServiceWorkerRegistration | undefined> {
+  if (!('serviceWorker' in navigator)) return undefined;
+  try {
+    return await navigator.serviceWorker.register(REMINDER_WORKER_URL);
+  } catch (error) {
+    console.error('Error registering reminder worker:', error);
+    return undefined;
+  }
+}
+
+// Remembered per expiry time, so extending a link arms its reminder again
+export function hasSentReminder(link: Link): boolean {
+  try {
+    return localStorage.getItem(REMINDED_KEY_PREFIX + link.id) === String(link.expiresAt.getTime());
+  } catch {
+    return false;
+  }
+}
+
+export function markReminderSent(link: Link) {
+  localStorage.setItem(REMINDED_KEY_PREFIX + link.id, String(link.expiresAt.getTime()));
+}
+
+// TypeScript's DOM types leave out the action buttons that only service worker notifications support
+interface ReminderNotificationOptions extends NotificationOptions {
+  actions?: { action: string; title: string }[];
+}
+
+// Resolves to false when notifications are not allowed, so the caller can fall back to a toast
+export async function showReminderNotification(link: Link, timeLeft: string): Promise<boolean> {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return false;
+
+  const title = `"${link.title}" expires in ${timeLeft}`;
+  const body = `${window.location.origin}/l/${link.shortUrl} stops redirecting soon.`;
+  const registration = 'serviceWorker' in navigator
+    ? await navigator.serviceWorker.getRegistration(REMINDER_WORKER_URL)
+    : undefined;
+
+  try {
+    if (registration) {
+      const options: ReminderNotificationOptions = {
+        body,
+        tag: `reminder-${link.id}`,
+        data: { linkId: link.id, hours: REMINDER_EXTEND_HOURS },
+        actions: [{ action: 'extend', title: `Extend ${REMINDER_EXTEND_HOURS} hours` }],
+      };
+      await registration.showNotification(title, options);
+    } else {
+      // Without the worker there is no Extend button, but clicking still brings the app forward
+      const notification = new Notification(title, { body, tag: `reminder-${link.id}` });
+      notification.onclick = () => window.focus();
+    }
+    return true;
+  } catch (error) {
+    console.error('Error showing reminder notification:', error);
+    return false;
+  }
+}
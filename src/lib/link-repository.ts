@@ -0,0 +1,512 @@
+import { PasswordHash } from './link-password';
+import { RedirectMode } from './redirect-mode';
+import { LinkTag } from './link-tags';
+
+export interface Link {
+  id: string;
+  originalUrl: string;
+  shortUrl: string;
+  title: string;
+  description?: string;
+  expiresAt: Date;
+  // Not-before time; the link shows a countdown until then
+  activatesAt?: Date;
+  createdAt: Date;
+  clicks: number;
+  // Burn after this many visits; undefined means unlimited
+  maxClicks?: number;
+  // Hours before expiry to send a reminder; undefined means none
+  remindBefore?: number;
+  // Salted hash; the plain password is never stored
+  password?: PasswordHash;
+  // Undefined means the confirmation page, as before redirect modes existed
+  redirectMode?: RedirectMode;
+  // Countdown length in seconds for timed redirects
+  redirectDelay?: number;
+  // Normalized tag names; colours live in the tag store
+  tags?: string[];
+  folder?: string;
+  // Set while the link sits in the Trash; it stops redirecting but keeps its short URL and clicks
+  deletedAt?: Date;
+  history?: LinkChange[];
+}
+
+export const AUDITED_FIELDS = ['title', 'description', 'originalUrl', 'activatesAt', 'expiresAt', 'maxClicks', 'remindBefore', 'redirectMode', 'redirectDelay', 'folder', 'tags'] as const;
+
+export type AuditedField = typeof AUDITED_FIELDS[number];
+
+export interface FieldChange {
+  field: AuditedField;
+  from?: string | number | Date;
+  to?: string | number | Date;
+}
+
+// One entry in a link's audit trail, covering every field touched by a single update
+export interface LinkChange {
+  changedAt: Date;
+  changes: FieldChange[];
+}
+
+// Left behind when a link is deleted so its short URL can still be told apart
+// from one that never existed
+export interface LinkTombstone {
+  shortUrl: string;
+  linkId: string;
+  title: string;
+  deletedAt: Date;
+}
+
+export type DeviceClass = 'mobile' | 'tablet' | 'desktop';
+
+export interface ClickMetadata {
+  referrer: string;
+  userAgent: string;
+  language: string;
+  viewport: { width: number; height: number };
+  device: DeviceClass;
+}
+
+export interface ClickEvent extends ClickMetadata {
+  id: string;
+  linkId: string;
+  timestamp: Date;
+}
+
+// Everything the store holds, as written to and read from a backup file
+export interface LinkSnapshot {
+  links: Link[];
+  clicks: ClickEvent[];
+  tombstones: LinkTombstone[];
+  tags: LinkTag[];
+}
+
+export interface RestoreResult {
+  restored: number;
+  clicks: number;
+  // Short URLs left alone because a different link already uses them
+  skipped: string[];
+}
+
+export type NewLink = Omit<Link, 'id' | 'createdAt' | 'clicks' | 'history' | 'deletedAt'>;
+
+export type LinkUpdate = Partial<Omit<Link, 'id' | 'createdAt' | 'history' | 'deletedAt'>>;
+
+export interface LinkRepository {
+  create(input: NewLink): Promise<Link>;
+  // All or nothing: a single clash aborts the whole batch
+  createMany(inputs: NewLink[]): Promise<Link[]>;
+  get(id: string): Promise<Link | undefined>;
+  getByShortUrl(shortUrl: string): Promise<Link | undefined>;
+  // Links in the Trash are left out
+  list(): Promise<Link[]>;
+  listTrash(): Promise<Link[]>;
+  update(id: string, changes: LinkUpdate): Promise<Link>;
+  updateMany(updates: { id: string; changes: LinkUpdate }[]): Promise<Link[]>;
+  // Move links to the Trash, or take them back out
+  trash(ids: string[]): Promise<Link[]>;
+  untrash(ids: string[]): Promise<Link[]>;
+  // Permanently delete links that went to the Trash before the cutoff
+  purgeTrash(deletedBefore: Date): Promise<number>;
+  delete(id: string): Promise<void>;
+  // Permanent; returns what was removed, so it can be handed back to restore() to undo
+  deleteMany(ids: string[]): Promise<LinkSnapshot>;
+  getTombstone(shortUrl: string): Promise<LinkTombstone | undefined>;
+  recordClick(id: string, metadata: ClickMetadata): Promise<ClickEvent>;
+  listClicks(linkId?: string): Promise<ClickEvent[]>;
+  listTags(): Promise<LinkTag[]>;
+  // Create a tag or change its colour
+  saveTag(tag: LinkTag): Promise<LinkTag>;
+  snapshot(): Promise<LinkSnapshot>;
+  // Merge a snapshot in; links with the same id are overwritten
+  restore(snapshot: LinkSnapshot): Promise<RestoreResult>;
+}
+
+// Thrown when a link is created with a short URL that is already in use
+export class ShortUrlTakenError extends Error {
+  constructor(public readonly shortUrl: string) {
+    super(`The short URL "${shortUrl}" is already taken`);
+    this.name = 'ShortUrlTakenError';
+  }
+}
+
+// Thrown when a visit is recorded against a link that has used up its allowed clicks
+export class ClickLimitReachedError extends Error {
+  constructor(public readonly linkId: string) {
+    super(`Link ${linkId} has reached its click limit`);
+    this.name = 'ClickLimitReachedError';
+  }
+}
+
+const DB_NAME = 'linkexpiry';
+const DB_VERSION = 4;
+const LINKS_STORE = 'links';
+const TOMBSTONES_STORE = 'tombstones';
+const CLICKS_STORE = 'clicks';
+const TAGS_STORE = 'tags';
+
+const isSameValue = (a?: string | number | Date, b?: string | number | Date) => {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return (a ?? '') === (b ?? '');
+};
+
+// Tag lists are recorded as text so history entries stay plain values
+const auditValue = (value: Link[AuditedField]) =>
+  Array.isArray(value) ? value.join(', ') || undefined : value;
+
+// Diff the audited fields between the stored link and the incoming changes
+function diffLink(existing: Link, changes: LinkUpdate): FieldChange[] {
+  return AUDITED_FIELDS
+    .filter(field => field in changes && !isSameValue(auditValue(existing[field]), auditValue(changes[field])))
+    .map(field => ({ field, from: auditValue(existing[field]), to: auditValue(changes[field]) }));
+}
+
+// Merge changes into a stored link, appending a history entry when audited fields changed
+function applyChanges(existing: Link, changes: LinkUpdate): Link {
+  const diff = diffLink(existing, changes);
+  const history = diff.length
+    ? [...(existing.history ?? []), { changedAt: new Date(), changes: diff }]
+    : existing.history;
+  return { ...existing, ...changes, id: existing.id, createdAt: existing.createdAt, history };
+}
+
+// Wrap an IDBRequest in a promise
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Resolve once a transaction has been committed
+function complete(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+class IndexedDBLinkRepository implements LinkRepository {
+  private db: Promise<IDBDatabase> | null = null;
+
+  // Open the database lazily so nothing touches IndexedDB until it is needed
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          if (!db.objectStoreNames.contains(LINKS_STORE)) {
+            const links = db.createObjectStore(LINKS_STORE, { keyPath: 'id' });
+            links.createIndex('shortUrl', 'shortUrl', { unique: true });
+            links.createIndex('createdAt', 'createdAt');
+          }
+          if (!db.objectStoreNames.contains(TOMBSTONES_STORE)) {
+            db.createObjectStore(TOMBSTONES_STORE, { keyPath: 'shortUrl' });
+          }
+          if (!db.objectStoreNames.contains(CLICKS_STORE)) {
+            const clicks = db.createObjectStore(CLICKS_STORE, { keyPath: 'id' });
+            clicks.createIndex('linkId', 'linkId');
+            clicks.createIndex('timestamp', 'timestamp');
+          }
+          if (!db.objectStoreNames.contains(TAGS_STORE)) {
+            db.createObjectStore(TAGS_STORE, { keyPath: 'name' });
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          this.db = null;
+          reject(req.error);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode, name = LINKS_STORE): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  async create(input: NewLink): Promise<Link> {
+    const link: Link = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      clicks: 0,
+    };
+
+    const store = await this.store('readwrite');
+    const done = complete(store.transaction);
+    store.add(link);
+    try {
+      await done;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'ConstraintError') {
+        throw new ShortUrlTakenError(link.shortUrl);
+      }
+      throw error;
+    }
+    return link;
+  }
+
+  async createMany(inputs: NewLink[]): Promise<Link[]> {
+    const createdAt = new Date();
+    const links: Link[] = inputs.map(input => ({
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt,
+      clicks: 0,
+    }));
+
+    const store = await this.store('readwrite');
+    const done = complete(store.transaction);
+    let clash: string | undefined;
+    for (const link of links) {
+      const req = store.add(link);
+      req.onerror = () => {
+        if (req.error?.name === 'ConstraintError') {
+          clash ??= link.shortUrl;
+        }
+      };
+    }
+    try {
+      await done;
+    } catch (error) {
+      if (clash) {
+        throw new ShortUrlTakenError(clash);
+      }
+      throw error;
+    }
+    return links;
+  }
+
+  async get(id: string): Promise<Link | undefined> {
+    const store = await this.store('readonly');
+    return request<Link | undefined>(store.get(id));
+  }
+
+  async getByShortUrl(shortUrl: string): Promise<Link | undefined> {
+    const store = await this.store('readonly');
+    return request<Link | undefined>(store.index('shortUrl').get(shortUrl));
+  }
+
+  // Newest links first, matching the order the Link Manager shows them in
+  async list(): Promise<Link[]> {
+    const store = await this.store('readonly');
+    const links = await request<Link[]>(store.getAll());
+    return links
+      .filter(link => !link.deletedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Most recently deleted first
+  async listTrash(): Promise<Link[]> {
+    const store = await this.store('readonly');
+    const links = await request<Link[]>(store.getAll());
+    return links
+      .filter(link => link.deletedAt)
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  async update(id: string, changes: LinkUpdate): Promise<Link> {
+    const store = await this.store('readwrite');
+    const done = complete(store.transaction);
+    const existing = await request<Link | undefined>(store.get(id));
+    if (!existing) {
+      throw new Error(`Link ${id} not found`);
+    }
+
+    const link = applyChanges(existing, changes);
+    store.put(link);
+    await done;
+    return link;
+  }
+
+  // One transaction, so either every link is updated or none are
+  async updateMany(updates: { id: string; changes: LinkUpdate }[]): Promise<Link[]> {
+    const store = await this.store('readwrite');
+    const done = complete(store.transaction);
+    const existing = await Promise.all(updates.map(({ id }) => request<Link | undefined>(store.get(id))));
+    const missing = updates.find((_, index) => !existing[index]);
+    if (missing) {
+      throw new Error(`Link ${missing.id} not found`);
+    }
+
+    const links = updates.map(({ changes }, index) => applyChanges(existing[index]!, changes));
+    links.forEach(link => store.put(link));
+    await done;
+    return links;
+  }
+
+  // Not an audited change, so the history stays about the link's own settings
+  private async setDeletedAt(ids: string[], deletedAt: Date | undefined): Promise<Link[]> {
+    const store = await this.store('readwrite');
+    const done = complete(store.transaction);
+    const existing = await Promise.all(ids.map(id => request<Link | undefined>(store.get(id))));
+    const links = existing.filter(Boolean).map(link => ({ ...link, deletedAt }));
+    links.forEach(link => store.put(link));
+    await done;
+    return links;
+  }
+
+  async trash(ids: string[]): Promise<Link[]> {
+    return this.setDeletedAt(ids, new Date());
+  }
+
+  async untrash(ids: string[]): Promise<Link[]> {
+    return this.setDeletedAt(ids, undefined);
+  }
+
+  async purgeTrash(deletedBefore: Date): Promise<number> {
+    const expired = (await this.listTrash()).filter(link => link.deletedAt < deletedBefore);
+    if (expired.length === 0) return 0;
+    const removed = await this.deleteMany(expired.map(link => link.id));
+    return removed.links.length;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.deleteMany([id]);
+  }
+
+  async deleteMany(ids: string[]): Promise<LinkSnapshot> {
+    const db = await this.open();
+    const tx = db.transaction([LINKS_STORE, TOMBSTONES_STORE, CLICKS_STORE], 'readwrite');
+    const done = complete(tx);
+    const links = tx.objectStore(LINKS_STORE);
+    const clicks = tx.objectStore(CLICKS_STORE);
+    const removed: LinkSnapshot = { links: [], clicks: [], tombstones: [], tags: [] };
+
+    for (const id of ids) {
+      const existing = await request<Link | undefined>(links.get(id));
+      if (!existing) continue;
+
+      const tombstone: LinkTombstone = {
+        shortUrl: existing.shortUrl,
+        linkId: existing.id,
+        title: existing.title,
+        deletedAt: new Date(),
+      };
+      tx.objectStore(TOMBSTONES_STORE).put(tombstone);
+      links.delete(id);
+
+      const linkClicks = await request<ClickEvent[]>(clicks.index('linkId').getAll(id));
+      linkClicks.forEach((click) => clicks.delete(click.id));
+      removed.links.push(existing);
+      removed.clicks.push(...linkClicks);
+    }
+    await done;
+    return removed;
+  }
+
+  async getTombstone(shortUrl: string): Promise<LinkTombstone | undefined> {
+    const store = await this.store('readonly', TOMBSTONES_STORE);
+    return request<LinkTombstone | undefined>(store.get(shortUrl));
+  }
+
+  // Log the visit and bump the counter in one transaction so they never disagree
+  async recordClick(id: string, metadata: ClickMetadata): Promise<ClickEvent> {
+    const db = await this.open();
+    const tx = db.transaction([LINKS_STORE, CLICKS_STORE], 'readwrite');
+    const done = complete(tx);
+    const links = tx.objectStore(LINKS_STORE);
+    const existing = await request<Link | undefined>(links.get(id));
+    if (!existing || existing.deletedAt) {
+      throw new Error(`Link ${id} not found`);
+    }
+    // Checked inside the transaction so two tabs cannot both use the last visit
+    if (existing.maxClicks !== undefined && existing.clicks >= existing.maxClicks) {
+      throw new ClickLimitReachedError(id);
+    }
+
+    const click: ClickEvent = {
+      ...metadata,
+      id: crypto.randomUUID(),
+      linkId: id,
+      timestamp: new Date(),
+    };
+    links.put({ ...existing, clicks: existing.clicks + 1 });
+    tx.objectStore(CLICKS_STORE).add(click);
+    await done;
+    return click;
+  }
+
+  // Oldest first, so the events can be bucketed into a timeline directly
+  async listClicks(linkId?: string): Promise<ClickEvent[]> {
+    const store = await this.store('readonly', CLICKS_STORE);
+    const clicks = linkId
+      ? await request<ClickEvent[]>(store.index('linkId').getAll(linkId))
+      : await request<ClickEvent[]>(store.getAll());
+    return clicks.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async listTags(): Promise<LinkTag[]> {
+    const store = await this.store('readonly', TAGS_STORE);
+    const tags = await request<LinkTag[]>(store.getAll());
+    return tags.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async saveTag(tag: LinkTag): Promise<LinkTag> {
+    const store = await this.store('readwrite', TAGS_STORE);
+    const done = complete(store.transaction);
+    store.put(tag);
+    await done;
+    return tag;
+  }
+
+  async snapshot(): Promise<LinkSnapshot> {
+    const db = await this.open();
+    const tx = db.transaction([LINKS_STORE, TOMBSTONES_STORE, CLICKS_STORE, TAGS_STORE], 'readonly');
+    const [links, clicks, tombstones, tags] = await Promise.all([
+      request<Link[]>(tx.objectStore(LINKS_STORE).getAll()),
+      request<ClickEvent[]>(tx.objectStore(CLICKS_STORE).getAll()),
+      request<LinkTombstone[]>(tx.objectStore(TOMBSTONES_STORE).getAll()),
+      request<LinkTag[]>(tx.objectStore(TAGS_STORE).getAll()),
+    ]);
+    return { links, clicks, tombstones, tags };
+  }
+
+  async restore(snapshot: LinkSnapshot): Promise<RestoreResult> {
+    const db = await this.open();
+    const tx = db.transaction([LINKS_STORE, TOMBSTONES_STORE, CLICKS_STORE, TAGS_STORE], 'readwrite');
+    const done = complete(tx);
+    const links = tx.objectStore(LINKS_STORE);
+    const existing = await request<Link[]>(links.getAll());
+    const owners = new Map(existing.map(link => [link.shortUrl, link.id]));
+    const tombstones = tx.objectStore(TOMBSTONES_STORE);
+
+    const restoredIds = new Set<string>();
+    const skipped: string[] = [];
+    for (const link of snapshot.links) {
+      const owner = owners.get(link.shortUrl);
+      if (owner && owner !== link.id) {
+        skipped.push(link.shortUrl);
+        continue;
+      }
+      owners.set(link.shortUrl, link.id);
+      restoredIds.add(link.id);
+      links.put(link);
+      tombstones.delete(link.shortUrl);
+    }
+
+    const clicks = snapshot.clicks.filter(click => restoredIds.has(click.linkId));
+    const clickStore = tx.objectStore(CLICKS_STORE);
+    clicks.forEach(click => clickStore.put(click));
+
+    // A tombstone must not shadow a short URL that is live again
+    snapshot.tombstones
+      .filter(tombstone => !owners.has(tombstone.shortUrl))
+      .forEach(tombstone => tombstones.put(tombstone));
+
+    const tagStore = tx.objectStore(TAGS_STORE);
+    snapshot.tags.forEach(tag => tagStore.put(tag));
+
+    await done;
+    return { restored: restoredIds.size, clicks: clicks.length, skipped };
+  }
+}
+
+// Export a singleton instance
+export const linkRepository: LinkRepository = new IndexedDBLinkRepository();
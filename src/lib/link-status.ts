@@ -0,0 +1,80 @@
+import { Link } from './link-repository';
+
+export type LinkStatus = 'scheduled' | 'active' | 'expired' | 'exhausted';
+
+export const STATUS_LABELS: Record<LinkStatus, string> = {
+  scheduled: 'Scheduled',
+  active: 'Active',
+  expired: 'Expired',
+  exhausted: 'Used up',
+};
+
+// How long before expiry a link counts as expiring soon
+export const EXPIRING_SOON_MS = 24 * 60 * 60 * 1000;
+
+// Work out whether a link can currently be followed
+export function getLinkStatus(link: Link, now: Date = new Date()): LinkStatus {
+  if (now > link.expiresAt) {
+    return 'expired';
+  }
+  if (link.activatesAt && now < link.activatesAt) {
+    return 'scheduled';
+  }
+  if (link.maxClicks !== undefined && link.clicks >= link.maxClicks) {
+    return 'exhausted';
+  }
+  return 'active';
+}
+
+export function isExpiringSoon(link: Link, now: Date = new Date()): boolean {
+  const diff = link.expiresAt.getTime() - now.getTime();
+  return diff > 0 && diff <= EXPIRING_SOON_MS;
+}
+
+// Visits left before a click-limited link burns out, or null when unlimited
+export function getRemainingClicks(link: Link): number | null {
+  if (link.maxClicks === undefined) return null;
+  return Math.max(0, link.maxClicks - link.clicks);
+}
+
+// Badge text such as "3 of 5 visits left" or "Single use"
+export function getVisitsLeftLabel(link: Link): string | null {
+  const remaining = getRemainingClicks(link);
+  if (remaining === null) return null;
+  if (link.maxClicks === 1 && remaining === 1) return 'Single use';
+  return `${remaining} of ${link.maxClicks} visit${link.maxClicks === 1 ? '' : 's'} left`;
+}
+
+// Compact countdown such as "2d 4h", "3h 15m", "12m" or, in the last minute, "42s"
+export function formatCountdown(diff: number): string {
+  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
+  const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${Math.ceil(diff / 1000)}s`;
+}
+
+export function getTimeUntilExpiry(date: Date, now: Date = new Date()): string {
+  const diff = date.getTime() - now.getTime();
+  if (diff <= 0) return 'Expired';
+  return formatCountdown(diff);
+}
+
+// "Opens in 2h 10m" style label for scheduled links, or null once live
+export function getTimeUntilActivation(link: Link, now: Date = new Date()): string | null {
+  if (!link.activatesAt) return null;
+  const diff = link.activatesAt.getTime() - now.getTime();
+  if (diff <= 0) return null;
+  return diff < 60 * 1000 ? 'less than a minute' : formatCountdown(diff);
+}
+
+// Returns a message when the activation time does not come before the expiry
+export function getScheduleError(activatesAt: Date | undefined, expiresAt: Date): string | null {
+  if (activatesAt && activatesAt >= expiresAt) {
+    return 'The activation time must be before the expiry time.';
+  }
+  return null;
+}
@@ -0,0 +1,47 @@
+export interface LinkTag {
+  name: string;
+  color: string;
+}
+
+export const TAG_NAME_MAX_LENGTH = 24;
+
+export const TAG_COLORS = [
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+  '#ef4444',
+  '#f59e0b',
+  '#10b981',
+  '#14b8a6',
+  '#6b7280',
+];
+
+// Tags are matched case-insensitively, so store them in one canonical form
+export const normalizeTagName = (name: string) =>
+  name.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, TAG_NAME_MAX_LENGTH);
+
+export const normalizeFolder = (folder?: string) => folder?.trim().replace(/\s+/g, ' ') || undefined;
+
+// Tags that arrive without a saved colour (imports, shared links) still get a stable one
+export function getDefaultTagColor(name: string): string {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return TAG_COLORS[hash % TAG_COLORS.length];
+}
+
+export function resolveTags(names: string[] = [], tags: LinkTag[]): LinkTag[] {
+  const colors = new Map(tags.map(tag => [tag.name, tag.color]));
+  return names.map(name => ({ name, color: colors.get(name) ?? getDefaultTagColor(name) }));
+}
+
+// Tags attached to at least one link, alphabetically, with their colours
+export function getUsedTags(links: { tags?: string[] }[], tags: LinkTag[]): LinkTag[] {
+  const names = [...new Set(links.flatMap(link => link.tags ?? []))].sort((a, b) => a.localeCompare(b));
+  return resolveTags(names, tags);
+}
+
+// Folders in use, alphabetically, for pickers and filters
+export const getFolders = (links: { folder?: string }[]) =>
+  [...new Set(links.map(link => link.folder).filter(Boolean))].sort((a, b) => a.localeCompare(b));
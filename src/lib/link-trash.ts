@@ -0,0 +1,33 @@
+import { addDays, differenceInCalendarDays, subDays } from 'date-fns';
+import { Link } from './link-repository';
+
+const RETENTION_KEY = 'linkexpiry:trash-retention-days';
+
+export const TRASH_RETENTION_OPTIONS = [1, 7, 30, 90];
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export function getTrashRetentionDays(): number {
+  try {
+    const days = Number(localStorage.getItem(RETENTION_KEY));
+    return TRASH_RETENTION_OPTIONS.includes(days) ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  } catch {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+}
+
+export function setTrashRetentionDays(days: number) {
+  localStorage.setItem(RETENTION_KEY, String(days));
+}
+
+// Links deleted before this moment have outlived the retention period
+export const getPurgeCutoff = (retentionDays: number, now: Date = new Date()) => subDays(now, retentionDays);
+
+export const getPurgeDate = (link: Link, retentionDays: number) => addDays(link.deletedAt, retentionDays);
+
+// "Deleted for good in 3 days" style label for the Trash list
+export function getPurgeLabel(link: Link, retentionDays: number, now: Date = new Date()): string {
+  const days = differenceInCalendarDays(getPurgeDate(link, retentionDays), now);
+  if (days <= 0) return 'Deleted for good today';
+  return `Deleted for good in ${days} day${days === 1 ? '' : 's'}`;
+}
@@ -1,4 +1,6 @@
 import SimplePeer from 'simple-peer';
+import { Link } from './link-repository';
+import { LinkTag, resolveTags } from './link-tags';
 
 export interface P2PLink {
   id: string;
@@ -9,9 +11,32 @@ export interface P2PLink {
   expiresAt: Date;
   createdAt: Date;
   clicks: number;
+  // Sent with their colours, since the receiver has its own tag store
+  tags?: LinkTag[];
+  folder?: string;
   sharedBy?: string;
 }
 
+// Only the fields a peer needs; never the password hash or the edit history
+export function toP2PLink(link: Link, tags: LinkTag[]): P2PLink {
+  return {
+    id: link.id,
+    originalUrl: link.originalUrl,
+    shortUrl: link.shortUrl,
+    title: link.title,
+    description: link.description,
+    expiresAt: link.expiresAt,
+    createdAt: link.createdAt,
+    clicks: link.clicks,
+    tags: resolveTags(link.tags, tags),
+    folder: link.folder,
+  };
+}
+
+// Peers are untrusted, so only accept tags that look like ones we would have sent
+const isLinkTag = (tag: unknown): tag is LinkTag =>
+  typeof (tag as LinkTag)?.name === 'string' && /^#[0-9a-f]{6}$/i.test((tag as LinkTag)?.color);
+
 export interface P2PConnection {
   id: string;
   peer: SimplePeer.Instance;
@@ -126,6 +151,7 @@ class P2PService {
             ...message.link,
             expiresAt: new Date(message.link.expiresAt),
             createdAt: new Date(message.link.createdAt),
+            tags: Array.isArray(message.link.tags) ? message.link.tags.filter(isLinkTag) : undefined,
           };
           this.onLinkReceived?.(link);
         }
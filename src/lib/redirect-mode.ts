@@ -0,0 +1,33 @@
+// How the redirect page hands visitors over to the destination
+export type RedirectMode = 'immediate' | 'timed' | 'interstitial';
+
+export const REDIRECT_MODES: RedirectMode[] = ['interstitial', 'timed', 'immediate'];
+
+export const REDIRECT_MODE_LABELS: Record<RedirectMode, string> = {
+  immediate: 'Immediate redirect',
+  timed: 'Timed redirect',
+  interstitial: 'Confirmation page',
+};
+
+export const REDIRECT_MODE_DESCRIPTIONS: Record<RedirectMode, string> = {
+  immediate: 'Visitors are sent straight to the destination',
+  timed: 'Visitors see the destination and are redirected after a countdown',
+  interstitial: 'Visitors must review the destination and click to continue',
+};
+
+// Links created before redirect modes existed always showed the confirmation page
+export const DEFAULT_REDIRECT_MODE: RedirectMode = 'interstitial';
+export const DEFAULT_REDIRECT_DELAY = 5;
+export const MAX_REDIRECT_DELAY = 60;
+
+export interface RedirectSettings {
+  mode: RedirectMode;
+  // Seconds before a timed redirect fires
+  delay: number;
+}
+
+export function getRedirectSettings(link: { redirectMode?: RedirectMode; redirectDelay?: number }): RedirectSettings {
+  const mode = link.redirectMode ?? DEFAULT_REDIRECT_MODE;
+  const delay = Math.min(Math.max(link.redirectDelay ?? DEFAULT_REDIRECT_DELAY, 1), MAX_REDIRECT_DELAY);
+  return { mode, delay };
+}
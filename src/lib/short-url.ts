@@ -0,0 +1,100 @@
+import { Link, LinkRepository, NewLink, ShortUrlTakenError } from './link-repository';
+
+const CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const SHORT_URL_LENGTH = 8;
+const MAX_ATTEMPTS = 5;
+
+export const ALIAS_MIN_LENGTH = 3;
+export const ALIAS_MAX_LENGTH = 32;
+const ALIAS_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Aliases that would be confused with app routes or future features
+export const RESERVED_ALIASES = [
+  'analytics',
+  'pricing',
+  'admin',
+  'api',
+  'app',
+  'dashboard',
+  'help',
+  'l',
+  'login',
+  'logout',
+  'settings',
+  'signup',
+  'static',
+  'trash',
+];
+
+// Random code built from crypto.getRandomValues, rejecting bytes that would bias the alphabet
+export function generateShortUrl(length = SHORT_URL_LENGTH): string {
+  const limit = 256 - (256 % CHARS.length);
+  let result = '';
+  while (result.length < length) {
+    const bytes = crypto.getRandomValues(new Uint8Array(length * 2));
+    for (const byte of bytes) {
+      if (byte < limit && result.length < length) {
+        result += CHARS[byte % CHARS.length];
+      }
+    }
+  }
+  return result;
+}
+
+// Returns a message describing what is wrong with the alias, or null when it is usable
+export function validateAlias(alias: string): string | null {
+  if (alias.length < ALIAS_MIN_LENGTH || alias.length > ALIAS_MAX_LENGTH) {
+    return `Alias must be between ${ALIAS_MIN_LENGTH} and ${ALIAS_MAX_LENGTH} characters.`;
+  }
+  if (!ALIAS_PATTERN.test(alias)) {
+    return 'Alias may only contain letters, numbers, hyphens and underscores.';
+  }
+  if (RESERVED_ALIASES.includes(alias.toLowerCase())) {
+    return `"${alias}" is reserved. Please choose another alias.`;
+  }
+  return null;
+}
+
+// An alias is taken if a live link uses it or a deleted link used to
+export async function isShortUrlAvailable(repository: LinkRepository, shortUrl: string): Promise<boolean> {
+  const [link, tombstone] = await Promise.all([
+    repository.getByShortUrl(shortUrl),
+    repository.getTombstone(shortUrl),
+  ]);
+  return !link && !tombstone;
+}
+
+// Create a link under the requested alias, or under a fresh random code,
+// retrying when a generated code happens to collide
+export async function createWithShortUrl(
+  repository: LinkRepository,
+  input: Omit<NewLink, 'shortUrl'>,
+  alias?: string
+): Promise<Link> {
+  if (alias) {
+    const error = validateAlias(alias);
+    if (error) {
+      throw new Error(error);
+    }
+    if (!(await isShortUrlAvailable(repository, alias))) {
+      throw new ShortUrlTakenError(alias);
+    }
+    return repository.create({ ...input, shortUrl: alias });
+  }
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const shortUrl = generateShortUrl();
+    if (!(await isShortUrlAvailable(repository, shortUrl))) {
+      continue;
+    }
+    try {
+      return await repository.create({ ...input, shortUrl });
+    } catch (error) {
+      if (!(error instanceof ShortUrlTakenError)) {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error('Could not generate a unique short URL. Please try again.');
+}
@@ -0,0 +1,194 @@
+export interface UrlValidationResult {
+  // Normalized destination, present whenever the input could be parsed
+  url?: string;
+  // Problems that stop the link from being created
+  errors: string[];
+  // Things worth a second look that do not block creation
+  warnings: string[];
+}
+
+const ALLOWED_SCHEMES = ['http:', 'https:'];
+const DANGEROUS_SCHEMES = ['javascript:', 'data:', 'vbscript:', 'file:', 'blob:'];
+
+// Domains that should never be used as destinations. Extend it per deployment
+// with a comma separated VITE_URL_BLOCKLIST, e.g. "evil.example,phish.test"
+export const DEFAULT_BLOCKLIST = [
+  'grabify.link',
+  'iplogger.org',
+  'iplogger.com',
+  '2no.co',
+  'yip.su',
+];
+
+export function getBlocklist(): string[] {
+  const extra = (import.meta.env.VITE_URL_BLOCKLIST ?? '')
+    .split(',')
+    .map((domain: string) => domain.trim().toLowerCase())
+    .filter(Boolean);
+  return [...DEFAULT_BLOCKLIST, ...extra];
+}
+
+const LABEL_PATTERN = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/;
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+// Cyrillic and Greek letters that render like Latin ones
+const LATIN_LOOKALIKES = new Set([...'аеорсухіјѕԁһӏԛԝвмнкт' + 'αοκνρτυχιεβ']);
+
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+
+function adapt(delta: number, numPoints: number, firstTime: boolean): number {
+  delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+  delta += Math.floor(delta / numPoints);
+  let k = 0;
+  while (delta > ((BASE - T_MIN) * T_MAX) >> 1) {
+    delta = Math.floor(delta / (BASE - T_MIN));
+    k += BASE;
+  }
+  return k + Math.floor(((BASE - T_MIN + 1) * delta) / (delta + SKEW));
+}
+
+function decodeDigit(code: number): number {
+  if (code >= 48 && code <= 57) return code - 22;
+  if (code >= 65 && code <= 90) return code - 65;
+  if (code >= 97 && code <= 122) return code - 97;
+  return BASE;
+}
+
+// RFC 3492 decoder for a single "xn--" label (without the prefix)
+export function decodePunycode(input: string): string {
+  const output: number[] = [];
+  let n = 128;
+  let i = 0;
+  let bias = 72;
+
+  const basic = Math.max(0, input.lastIndexOf('-'));
+  for (let j = 0; j < basic; j++) {
+    output.push(input.charCodeAt(j));
+  }
+
+  for (let index = basic > 0 ? basic + 1 : 0; index < input.length;) {
+    const oldI = i;
+    let w = 1;
+    for (let k = BASE; ; k += BASE) {
+      if (index >= input.length) throw new Error('Invalid punycode');
+      const digit = decodeDigit(input.charCodeAt(index++));
+      if (digit >= BASE) throw new Error('Invalid punycode');
+      i += digit * w;
+      const t = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+      if (digit < t) break;
+      w *= BASE - t;
+    }
+    const length = output.length + 1;
+    bias = adapt(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    output.splice(i++, 0, n);
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+function getScripts(label: string): Set<string> {
+  const scripts = new Set<string>();
+  for (const char of label) {
+    if (/\p{Script=Latin}/u.test(char)) scripts.add('Latin');
+    else if (/\p{Script=Cyrillic}/u.test(char)) scripts.add('Cyrillic');
+    else if (/\p{Script=Greek}/u.test(char)) scripts.add('Greek');
+    else if (/\p{Script=Armenian}/u.test(char)) scripts.add('Armenian');
+    else if (/\p{L}/u.test(char)) scripts.add('Other');
+  }
+  return scripts;
+}
+
+// A label is suspicious if it mixes scripts, or is written entirely in
+// characters that pass for Latin letters
+export function isHomographLabel(label: string): boolean {
+  const scripts = getScripts(label);
+  if (scripts.size > 1) return true;
+  if (scripts.has('Cyrillic') || scripts.has('Greek')) {
+    const letters = [...label].filter(char => /\p{L}/u.test(char));
+    return letters.length > 0 && letters.every(char => LATIN_LOOKALIKES.has(char));
+  }
+  return false;
+}
+
+const isBlocked = (hostname: string, blocklist: string[]) =>
+  blocklist.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+
+// Normalize a destination and explain anything that makes it unsafe to redirect to
+export function validateDestination(input: string, blocklist: string[] = getBlocklist()): UrlValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const trimmed = input.trim();
+
+  if (!trimmed) {
+    return { errors: ['Please enter a destination URL.'], warnings };
+  }
+
+  const scheme = trimmed.match(/^([a-z][a-z0-9+.-]*):/i)?.[1]?.toLowerCase();
+  if (scheme && DANGEROUS_SCHEMES.includes(`${scheme}:`)) {
+    return { errors: [`"${scheme}:" links are not allowed because they can run code or hide content.`], warnings };
+  }
+
+  // Accept bare hosts like "example.com/page" or "localhost:3000" by assuming https; single-label
+  // hosts are only accepted as localhost or with a port, see isLocalHost below
+  const hasAuthority = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed);
+  const isHostWithPort = /^[^/:]+:\d+(\/|$)/.test(trimmed);
+  if (scheme && !hasAuthority && !isHostWithPort) {
+    return { errors: [`Only http and https links are supported, not "${scheme}:".`], warnings };
+  }
+  const candidate = hasAuthority ? trimmed : `https://${trimmed.replace(/^\/+/, '')}`;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(candidate);
+  } catch {
+    return { errors: ['This is not a valid URL.'], warnings };
+  }
+
+  if (!ALLOWED_SCHEMES.includes(parsed.protocol)) {
+    errors.push(`Only http and https links are supported, not "${parsed.protocol}".`);
+  }
+  if (parsed.username || parsed.password) {
+    warnings.push('The URL contains login details, which are often used to disguise the real destination.');
+  }
+
+  const hostname = parsed.hostname.replace(/\.$/, '');
+  const labels = hostname.split('.');
+
+  // localhost, or an intranet name given with a port, like "intranet:8080"
+  const isLocalHost = labels.length === 1 && LABEL_PATTERN.test(hostname)
+    && (hostname === 'localhost' || parsed.port !== '');
+
+  if (IPV4_PATTERN.test(hostname) || hostname.startsWith('[')) {
+    warnings.push('The destination is a raw IP address rather than a domain name.');
+  } else if (isLocalHost) {
+    warnings.push(`"${hostname}" is a local address that only works on the owner's machine or network.`);
+  } else if (labels.length < 2 || hostname.length > 253 || !labels.every(label => LABEL_PATTERN.test(label))) {
+    errors.push(`"${hostname}" is not a valid domain name.`);
+  } else if (/^\d+$/.test(labels[labels.length - 1])) {
+    errors.push(`"${hostname}" does not end in a valid top-level domain.`);
+  }
+
+  const punycodeLabels = labels.filter(label => label.startsWith('xn--'));
+  if (punycodeLabels.length > 0) {
+    try {
+      const decoded = labels.map(label => (label.startsWith('xn--') ? decodePunycode(label.slice(4)) : label));
+      if (decoded.some(isHomographLabel)) {
+        warnings.push(`"${decoded.join('.')}" uses look-alike characters and may be impersonating another site (${hostname}).`);
+      }
+    } catch {
+      errors.push(`"${hostname}" contains an invalid internationalized domain name.`);
+    }
+  }
+
+  if (isBlocked(hostname, blocklist)) {
+    errors.push(`${hostname} is on the blocklist and cannot be used as a destination.`);
+  }
+
+  return { url: parsed.toString(), errors, warnings };
+}
@@ -1,50 +1,57 @@
 import { useState } from 'react';
+import { DateRange } from 'react-day-picker';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Calendar as CalendarPicker } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from 'recharts';
 import { TrendingUp, Link, Clock, Eye, Calendar, ExternalLink } from 'lucide-react';
-import { format } from 'date-fns';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import { useClicks, useLinks, useTags } from '@/hooks/use-links';
+import ExportMenu from '@/components/ExportMenu';
+import TagFolderFilters from '@/components/TagFolderFilters';
+import { DEFAULT_LINK_QUERY, queryLinks } from '@/lib/link-query';
+import { getFolders, getUsedTags } from '@/lib/link-tags';
+import {
+  AnalyticsRange,
+  filterClicks,
+  formatDelta,
+  getDailyClicks,
+  getPresetRange,
+  getPreviousRange,
+  getStatusBreakdown,
+  getTopLinks,
+  RangePreset,
+  summarize,
+} from '@/lib/analytics';
 
 const Analytics = () => {
-  const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d'>('30d');
+  const [timeRange, setTimeRange] = useState<RangePreset | 'custom'>('30d');
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const [grouping, setGrouping] = useState<{ tag?: string; folder?: string }>({});
 
-  // Mock data - in a real app, this would come from your API
-  const mockData = {
-    totalLinks: 24,
-    totalClicks: 156,
-    activeLinks: 18,
-    expiredLinks: 6,
-    averageClicksPerLink: 6.5,
-    topPerformingLink: {
-      title: 'Product Launch',
-      clicks: 45,
-      url: 'https://example.com/product'
-    }
-  };
+  const { data: allLinks = [] } = useLinks();
+  const { data: allClicks = [] } = useClicks();
+  const { data: tags = [] } = useTags();
 
-  const clickData = [
-    { date: '2024-01-01', clicks: 12 },
-    { date: '2024-01-02', clicks: 19 },
-    { date: '2024-01-03', clicks: 8 },
-    { date: '2024-01-04', clicks: 25 },
-    { date: '2024-01-05', clicks: 15 },
-    { date: '2024-01-06', clicks: 22 },
-    { date: '2024-01-07', clicks: 18 },
-  ];
+  // Narrow everything below to the chosen tag and folder
+  const links = queryLinks(allLinks, { ...DEFAULT_LINK_QUERY, ...grouping });
+  const linkIds = new Set(links.map(link => link.id));
+  const clicks = allClicks.filter(click => linkIds.has(click.linkId));
 
-  const linkStatusData = [
-    { name: 'Active', value: 18, color: '#10b981' },
-    { name: 'Expired', value: 6, color: '#ef4444' },
-  ];
+  const now = new Date();
+  const range: AnalyticsRange = timeRange === 'custom' && customRange?.from
+    ? { from: startOfDay(customRange.from), to: endOfDay(customRange.to ?? customRange.from) }
+    : getPresetRange(timeRange === 'custom' ? '30d' : timeRange, now);
+  const previousRange = getPreviousRange(range);
+  const comparisonLabel = timeRange === 'custom' ? 'from previous period' : `from previous ${timeRange.replace('d', ' days')}`;
 
-  const topLinks = [
-    { title: 'Product Launch', clicks: 45, status: 'active' },
-    { title: 'Newsletter Signup', clicks: 32, status: 'active' },
-    { title: 'Documentation', clicks: 28, status: 'active' },
-    { title: 'Support Page', clicks: 21, status: 'expired' },
-    { title: 'Blog Post', clicks: 18, status: 'active' },
-  ];
+  const summary = summarize(links, clicks, range, now);
+  const previousSummary = summarize(links, clicks, previousRange, now);
+  const clickData = getDailyClicks(clicks, range);
+  const linkStatusData = getStatusBreakdown(links, range, now);
+  const topLinks = getTopLinks(links, clicks, range, 5, now);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
@@ -75,7 +82,7 @@ const Analytics = () => {
         </div>
 
         {/* Time Range Selector */}
-        <div className="flex gap-2 mb-6">
+        <div className="flex flex-wrap items-center gap-2 mb-6">
           <Button
             variant={timeRange === '7d' ? 'default' : 'outline'}
             size="sm"
@@ -97,19 +104,58 @@ const Analytics = () => {
           >
             Last 90 days
           </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant={timeRange === 'custom' ? 'default' : 'outline'}
+                size="sm"
+                className="flex items-center gap-2"
+              >
+                <Calendar className="h-4 w-4" />
+                {timeRange === 'custom'
+                  ? `${format(range.from, 'MMM d, yyyy')} - ${format(range.to, 'MMM d, yyyy')}`
+                  : 'Custom range'}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <CalendarPicker
+                mode="range"
+                selected={customRange}
+                onSelect={(selected) => {
+                  setCustomRange(selected);
+                  if (selected?.from) {
+                    setTimeRange('custom');
+                  }
+                }}
+                numberOfMonths={2}
+                disabled={(date) => date > now}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <TagFolderFilters
+            tags={getUsedTags(allLinks, tags)}
+            folders={getFolders(allLinks)}
+            tag={grouping.tag}
+            folder={grouping.folder}
+            onChange={(changes) => setGrouping(prev => ({ ...prev, ...changes }))}
+          />
+          <div className="ml-auto">
+            <ExportMenu links={links} clicks={filterClicks(clicks, range)} />
+          </div>
         </div>
 
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Links</CardTitle>
+              <CardTitle className="text-sm font-medium">Links Created</CardTitle>
               <Link className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{mockData.totalLinks}</div>
+              <div className="text-2xl font-bold">{summary.totalLinks}</div>
               <p className="text-xs text-muted-foreground">
-                +2 from last month
+                {formatDelta(summary.totalLinks, previousSummary.totalLinks)} {comparisonLabel}
               </p>
             </CardContent>
           </Card>
@@ -120,9 +166,9 @@ const Analytics = () => {
               <Eye className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{mockData.totalClicks}</div>
+              <div className="text-2xl font-bold">{summary.totalClicks}</div>
               <p className="text-xs text-muted-foreground">
-                +12% from last month
+                {formatDelta(summary.totalClicks, previousSummary.totalClicks, true)} {comparisonLabel}
               </p>
             </CardContent>
           </Card>
@@ -133,9 +179,11 @@ const Analytics = () => {
               <TrendingUp className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{mockData.activeLinks}</div>
+              <div className="text-2xl font-bold">{summary.activeLinks}</div>
               <p className="text-xs text-muted-foreground">
-                {Math.round((mockData.activeLinks / mockData.totalLinks) * 100)}% of total
+                {summary.activeLinks + summary.expiredLinks + summary.scheduledLinks
+                  ? Math.round((summary.activeLinks / (summary.activeLinks + summary.expiredLinks + summary.scheduledLinks)) * 100)
+                  : 0}% of total, {formatDelta(summary.activeLinks, previousSummary.activeLinks)} {comparisonLabel}
               </p>
             </CardContent>
           </Card>
@@ -146,9 +194,9 @@ const Analytics = () => {
               <Clock className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{mockData.averageClicksPerLink}</div>
+              <div className="text-2xl font-bold">{summary.averageClicksPerLink}</div>
               <p className="text-xs text-muted-foreground">
-                +0.5 from last month
+                {formatDelta(summary.averageClicksPerLink, previousSummary.averageClicksPerLink)} {comparisonLabel}
               </p>
             </CardContent>
           </Card>
@@ -189,7 +237,7 @@ const Analytics = () => {
           <Card>
             <CardHeader>
               <CardTitle>Link Status</CardTitle>
-              <CardDescription>Active vs expired links</CardDescription>
+              <CardDescription>Scheduled, active, expired and used-up links</CardDescription>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
@@ -222,24 +270,36 @@ const Analytics = () => {
             <CardDescription>Your most clicked links</CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              {topLinks.map((link, index) => (
-                <div key={index} className="flex items-center justify-between p-4 border rounded-lg">
-                  <div className="flex items-center gap-4">
-                    <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center text-blue-600 font-semibold">
-                      {index + 1}
-                    </div>
-                    <div>
-                      <h3 className="font-medium">{link.title}</h3>
-                      <p className="text-sm text-gray-500">{link.clicks} clicks</p>
+            {topLinks.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <Eye className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No clicks recorded yet</p>
+                <p className="text-sm">Share your links to start collecting visits</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {topLinks.map((link, index) => (
+                  <div
+                    key={link.id}
+                    className="flex items-center justify-between p-4 border rounded-lg cursor-pointer hover:shadow-md transition-shadow"
+                    onClick={() => window.location.href = `/analytics/${link.id}`}
+                  >
+                    <div className="flex items-center gap-4">
+                      <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center text-blue-600 font-semibold">
+                        {index + 1}
+                      </div>
+                      <div>
+                        <h3 className="font-medium">{link.title}</h3>
+                        <p className="text-sm text-gray-500">{link.clicks} clicks</p>
+                      </div>
                     </div>
+                    <Badge variant={link.status === 'active' ? 'default' : 'secondary'}>
+                      {link.status}
+                    </Badge>
                   </div>
-                  <Badge variant={link.status === 'active' ? 'default' : 'secondary'}>
-                    {link.status}
-                  </Badge>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
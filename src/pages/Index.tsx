@@ -4,54 +4,81 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
-import { Calendar } from '@/components/ui/calendar';
-import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { TimePicker } from '@/components/ui/time-picker';
-import { CalendarIcon, Copy, ExternalLink, Plus, Trash2, Clock, BarChart3, QrCode, Scan, Share2 } from 'lucide-react';
+import { Copy, ExternalLink, Lock, Pencil, Plus, Trash2, Clock, BarChart3, QrCode, Scan, Share2, Upload, Folder } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import QRScanner from '@/components/QRScanner';
 import P2PSharing from '@/components/P2PSharing';
 import SharedLinks from '@/components/SharedLinks';
 import P2PInstructions from '@/components/P2PInstructions';
-import { P2PLink } from '@/lib/p2p-service';
-
-interface Link {
-  id: string;
-  originalUrl: string;
-  shortUrl: string;
-  title: string;
-  description?: string;
-  expiresAt: Date;
-  createdAt: Date;
-  clicks: number;
-}
+import LinkFormFields, { LinkFormValues } from '@/components/LinkFormFields';
+import EditLinkDialog from '@/components/EditLinkDialog';
+import ImportLinksDialog from '@/components/ImportLinksDialog';
+import TrashDialog from '@/components/TrashDialog';
+import ExportMenu from '@/components/ExportMenu';
+import LinkListToolbar from '@/components/LinkListToolbar';
+import ListPagination from '@/components/ListPagination';
+import TagBadge from '@/components/TagBadge';
+import LinkStatusBadge from '@/components/LinkStatusBadge';
+import ExpiringSoonPanel from '@/components/ExpiringSoonPanel';
+import BulkActionsBar from '@/components/BulkActionsBar';
+import { P2PLink, toP2PLink } from '@/lib/p2p-service';
+import { useClicks, useCreateLink, useLinks, useTags, useTrash } from '@/hooks/use-links';
+import { useDeleteWithUndo } from '@/hooks/use-delete-with-undo';
+import { useLifecycleEvents } from '@/hooks/use-link-lifecycle';
+import { validateDestination } from '@/lib/url-validation';
+import { getLinkStatus, getScheduleError, getVisitsLeftLabel } from '@/lib/link-status';
+import { Link, ShortUrlTakenError } from '@/lib/link-repository';
+import { ALIAS_MAX_LENGTH, validateAlias } from '@/lib/short-url';
+import { hashPassword } from '@/lib/link-password';
+import { DEFAULT_REDIRECT_MODE, getRedirectSettings } from '@/lib/redirect-mode';
+import { getFolders, getUsedTags, normalizeFolder, resolveTags } from '@/lib/link-tags';
+import { DEFAULT_LINK_QUERY, LinkQuery, paginate, queryLinks } from '@/lib/link-query';
+
+const LINKS_PAGE_SIZE = 10;
+
+const EMPTY_LINK_FORM: LinkFormValues = {
+  title: '',
+  originalUrl: '',
+  description: '',
+  activatesAt: undefined,
+  expiresAt: undefined,
+  password: '',
+  redirectMode: DEFAULT_REDIRECT_MODE,
+  tags: [],
+  folder: '',
+};
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState<'links' | 'qr' | 'p2p'>('links');
-  const [links, setLinks] = useState<Link[]>([]);
+  const { data: links = [] } = useLinks();
+  const { data: allClicks = [] } = useClicks();
+  const { data: tags = [] } = useTags();
+  const { data: trash = [] } = useTrash();
+  // Clicks of links in the Trash are kept until the link is deleted for good
+  const liveLinkIds = new Set(links.map(link => link.id));
+  const clicks = allClicks.filter(click => liveLinkIds.has(click.linkId));
+  const createLinkMutation = useCreateLink();
+  const { deleteWithUndo } = useDeleteWithUndo();
   const [sharedLinks, setSharedLinks] = useState<P2PLink[]>([]);
-  const [originalUrl, setOriginalUrl] = useState('');
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [expiryDate, setExpiryDate] = useState<Date>();
-  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<LinkFormValues>(EMPTY_LINK_FORM);
+  const [alias, setAlias] = useState('');
+  const [aliasError, setAliasError] = useState<string | null>(null);
+  const [editingLink, setEditingLink] = useState<Link | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [query, setQuery] = useState<LinkQuery>(DEFAULT_LINK_QUERY);
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [now, setNow] = useState(() => new Date());
   const { toast } = useToast();
 
-  const generateShortUrl = () => {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    let result = '';
-    for (let i = 0; i < 8; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return result;
-  };
-
   const createLink = async () => {
-    if (!originalUrl || !title || !expiryDate) {
+    const { originalUrl, title, description, activatesAt, expiresAt, maxClicks, remindBefore, password, redirectMode, tags, folder } = form;
+    if (!originalUrl || !title || !expiresAt) {
       toast({
         title: "Missing required fields",
         description: "Please fill in all required fields.",
@@ -60,28 +87,66 @@ const Index = () => {
       return;
     }
 
-    setIsCreating(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const newLink: Link = {
-      id: Date.now().toString(),
-      originalUrl,
-      shortUrl: generateShortUrl(),
-      title,
-      description,
-      expiresAt: expiryDate,
-      createdAt: new Date(),
-      clicks: 0,
-    };
-
-    setLinks([newLink, ...links]);
-    setOriginalUrl('');
-    setTitle('');
-    setDescription('');
-    setExpiryDate(undefined);
-    setIsCreating(false);
+    const destination = validateDestination(originalUrl);
+    if (destination.errors.length > 0) {
+      toast({
+        title: "Invalid destination URL",
+        description: destination.errors[0],
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const scheduleError = getScheduleError(activatesAt, expiresAt);
+    if (scheduleError) {
+      toast({
+        title: "Invalid schedule",
+        description: scheduleError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const trimmedAlias = alias.trim();
+    const aliasProblem = trimmedAlias ? validateAlias(trimmedAlias) : null;
+    if (aliasProblem) {
+      setAliasError(aliasProblem);
+      return;
+    }
+
+    try {
+      await createLinkMutation.mutateAsync({
+        originalUrl: destination.url!,
+        title,
+        description,
+        activatesAt,
+        expiresAt,
+        maxClicks,
+        remindBefore,
+        password: password ? await hashPassword(password) : undefined,
+        redirectMode,
+        redirectDelay: redirectMode === 'timed' ? getRedirectSettings(form).delay : undefined,
+        tags,
+        folder: normalizeFolder(folder),
+        alias: trimmedAlias || undefined,
+      });
+    } catch (error) {
+      if (error instanceof ShortUrlTakenError) {
+        setAliasError(`"${error.shortUrl}" is already in use. Please choose another alias.`);
+        return;
+      }
+      console.error('Error creating link:', error);
+      toast({
+        title: "Could not create link",
+        description: "The link could not be saved. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setForm(EMPTY_LINK_FORM);
+    setAlias('');
+    setAliasError(null);
 
     toast({
       title: "Link created successfully!",
@@ -89,6 +154,17 @@ const Index = () => {
     });
   };
 
+  const updateQuery = (changes: Partial<LinkQuery>) => {
+    setQuery(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  // Re-run status filters and sorting whenever the scheduler reports a change
+  useLifecycleEvents((event) => setNow(event.at));
+
+  const matchingLinks = queryLinks(links, query, now);
+  const linksPage = paginate(matchingLinks, page, LINKS_PAGE_SIZE);
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({
@@ -97,11 +173,34 @@ const Index = () => {
     });
   };
 
-  const deleteLink = (id: string) => {
-    setLinks(links.filter(link => link.id !== id));
-    toast({
-      title: "Link deleted",
-      description: "The link has been permanently deleted.",
+  const deleteLink = async (id: string) => {
+    if (await deleteWithUndo([id])) {
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
+  // Links that were deleted elsewhere simply drop out of the selection
+  const selectedLinks = links.filter(link => selectedIds.has(link.id));
+  const pageSelection = linksPage.items.filter(link => selectedIds.has(link.id)).length;
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (selected) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const togglePageSelected = (selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      linksPage.items.forEach(link => (selected ? next.add(link.id) : next.delete(link.id)));
+      return next;
     });
   };
 
@@ -113,25 +212,6 @@ const Index = () => {
     });
   };
 
-  const isExpired = (date: Date) => {
-    return new Date() > date;
-  };
-
-  const getTimeUntilExpiry = (date: Date) => {
-    const now = new Date();
-    const diff = date.getTime() - now.getTime();
-    
-    if (diff <= 0) return 'Expired';
-    
-    const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-    const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-    
-    if (days > 0) return `${days}d ${hours}h`;
-    if (hours > 0) return `${hours}h ${minutes}m`;
-    return `${minutes}m`;
-  };
-
   if (activeTab === 'qr') {
     return <QRScanner />;
   }
@@ -160,7 +240,7 @@ const Index = () => {
 
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <div className="lg:col-span-2">
-              <P2PSharing links={links} onLinkReceived={handleLinkReceived} />
+              <P2PSharing links={links.map(link => toP2PLink(link, tags))} onLinkReceived={handleLinkReceived} />
             </div>
             <div className="space-y-6">
               <P2PInstructions />
@@ -244,100 +324,78 @@ const Index = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="title">Title *</Label>
-                  <Input
-                    id="title"
-                    placeholder="Enter link title"
-                    value={title}
-                    onChange={(e) => setTitle(e.target.value)}
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="url">Original URL *</Label>
-                  <Input
-                    id="url"
-                    type="url"
-                    placeholder="https://example.com"
-                    value={originalUrl}
-                    onChange={(e) => setOriginalUrl(e.target.value)}
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Textarea
-                    id="description"
-                    placeholder="Optional description"
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value)}
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label>Expiry Date *</Label>
-                  <Popover>
-                    <PopoverTrigger asChild>
-                      <Button
-                        variant="outline"
-                        className={cn(
-                          "w-full justify-start text-left font-normal",
-                          !expiryDate && "text-muted-foreground"
-                        )}
-                      >
-                        <CalendarIcon className="mr-2 h-4 w-4" />
-                        {expiryDate ? format(expiryDate, "PPP") : "Pick a date"}
-                      </Button>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-auto p-0" align="start">
-                      <Calendar
-                        mode="single"
-                        selected={expiryDate}
-                        onSelect={(date) => {
-                          if (date) {
-                            const newDate = new Date(date);
-                            if (expiryDate) {
-                              newDate.setHours(expiryDate.getHours(), expiryDate.getMinutes(), 0, 0);
-                            } else {
-                              newDate.setHours(12, 0, 0, 0);
-                            }
-                            setExpiryDate(newDate);
-                          } else {
-                            setExpiryDate(undefined);
-                          }
+                <LinkFormFields
+                  values={form}
+                  onChange={(changes) => setForm(prev => ({ ...prev, ...changes }))}
+                >
+                  <div className="space-y-2">
+                    <Label htmlFor="alias">Custom Alias</Label>
+                    <div className="flex items-center gap-1">
+                      <span className="text-sm text-gray-500 whitespace-nowrap">/l/</span>
+                      <Input
+                        id="alias"
+                        placeholder="Optional, e.g. spring-sale"
+                        value={alias}
+                        maxLength={ALIAS_MAX_LENGTH}
+                        onChange={(e) => {
+                          setAlias(e.target.value);
+                          setAliasError(e.target.value.trim() ? validateAlias(e.target.value.trim()) : null);
                         }}
-                        disabled={(date) => date < new Date()}
-                        initialFocus
+                        className={cn(aliasError && "border-red-500")}
                       />
-                    </PopoverContent>
-                  </Popover>
-                </div>
-
-                <div className="space-y-2">
-                  <Label>Expiry Time *</Label>
-                  <TimePicker date={expiryDate} setDate={setExpiryDate} />
-                </div>
+                    </div>
+                    {aliasError ? (
+                      <p className="text-xs text-red-600">{aliasError}</p>
+                    ) : (
+                      <p className="text-xs text-gray-500">Leave empty to generate a random code</p>
+                    )}
+                  </div>
+                </LinkFormFields>
 
                 <Button 
                   onClick={createLink} 
                   className="w-full" 
-                  disabled={isCreating}
+                  disabled={createLinkMutation.isPending}
                 >
-                  {isCreating ? 'Creating...' : 'Create Link'}
+                  {createLinkMutation.isPending ? 'Creating...' : 'Create Link'}
                 </Button>
               </CardContent>
             </Card>
           </div>
 
           {/* Links List */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
+            <ExpiringSoonPanel links={links} />
             <Card>
-              <CardHeader>
-                <CardTitle>Your Links</CardTitle>
-                <CardDescription>
-                  Manage your created links
-                </CardDescription>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Your Links</CardTitle>
+                  <CardDescription>
+                    Manage your created links
+                  </CardDescription>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setImportOpen(true)}
+                    className="flex items-center gap-2"
+                  >
+                    <Upload className="h-4 w-4" />
+                    Import
+                  </Button>
+                  <ExportMenu links={links} clicks={clicks} includeBackup />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setTrashOpen(true)}
+                    className="flex items-center gap-2"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Trash
+                    {trash.length > 0 && <Badge variant="secondary">{trash.length}</Badge>}
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent>
                 {links.length === 0 ? (
@@ -347,83 +405,184 @@ const Index = () => {
                     <p className="text-sm">Create your first link to get started</p>
                   </div>
                 ) : (
-                  <div className="space-y-4">
-                    {links.map((link) => (
-                      <div
-                        key={link.id}
-                        className="border rounded-lg p-4 hover:shadow-md transition-shadow"
-                      >
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2 mb-2">
-                              <h3 className="font-semibold">{link.title}</h3>
-                              {isExpired(link.expiresAt) ? (
-                                <Badge variant="destructive">Expired</Badge>
-                              ) : (
-                                <Badge variant="secondary">
-                                  {getTimeUntilExpiry(link.expiresAt)}
-                                </Badge>
-                              )}
-                            </div>
-                            
-                            {link.description && (
-                              <p className="text-sm text-gray-600 mb-2">{link.description}</p>
+                  <>
+                    <LinkListToolbar
+                      query={query}
+                      onChange={updateQuery}
+                      tags={getUsedTags(links, tags)}
+                      folders={getFolders(links)}
+                    />
+                    {matchingLinks.length === 0 ? (
+                      <div className="text-center py-8 text-gray-500">
+                        <p>No links match your search</p>
+                        <Button variant="link" onClick={() => updateQuery(DEFAULT_LINK_QUERY)}>
+                          Clear filters
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="space-y-4">
+                        {selectedLinks.length > 0 && (
+                          <BulkActionsBar
+                            selectedLinks={selectedLinks}
+                            clicks={clicks}
+                            onClear={() => setSelectedIds(new Set())}
+                          />
+                        )}
+                        <label className="flex items-center gap-2 text-sm text-gray-600 px-1">
+                          <Checkbox
+                            checked={
+                              pageSelection === 0
+                                ? false
+                                : pageSelection === linksPage.items.length ? true : 'indeterminate'
+                            }
+                            onCheckedChange={(checked) => togglePageSelected(checked === true)}
+                            aria-label="Select all links on this page"
+                          />
+                          Select all on this page
+                        </label>
+                        {linksPage.items.map((link) => (
+                          <div
+                            key={link.id}
+                            className={cn(
+                              'border rounded-lg p-4 hover:shadow-md transition-shadow',
+                              selectedIds.has(link.id) && 'border-blue-300 bg-blue-50/50'
                             )}
+                          >
+                            <div className="flex items-start justify-between">
+                              <Checkbox
+                                className="mt-1 mr-3"
+                                checked={selectedIds.has(link.id)}
+                                onCheckedChange={(checked) => toggleSelected(link.id, checked === true)}
+                                aria-label={`Select ${link.title}`}
+                              />
+                              <div className="flex-1">
+                                <div className="flex items-center gap-2 mb-2">
+                                  <h3 className="font-semibold">{link.title}</h3>
+                                  <LinkStatusBadge link={link} />
+                                  {link.password && (
+                                    <Badge variant="outline" className="gap-1">
+                                      <Lock className="h-3 w-3" />
+                                      Protected
+                                    </Badge>
+                                  )}
+                                  {getLinkStatus(link) !== 'exhausted' && getVisitsLeftLabel(link) && (
+                                    <Badge variant="outline">{getVisitsLeftLabel(link)}</Badge>
+                                  )}
+                                </div>
+                              
+                                {link.description && (
+                                  <p className="text-sm text-gray-600 mb-2">{link.description}</p>
+                                )}
+
+                                {(link.folder || link.tags?.length > 0) && (
+                                  <div className="flex flex-wrap items-center gap-1 mb-2">
+                                    {link.folder && (
+                                      <button
+                                        type="button"
+                                        onClick={() => updateQuery({ folder: link.folder })}
+                                        className="inline-flex items-center gap-1 text-xs text-gray-600 hover:underline mr-1"
+                                      >
+                                        <Folder className="h-3 w-3" />
+                                        {link.folder}
+                                      </button>
+                                    )}
+                                    {resolveTags(link.tags, tags).map((tag) => (
+                                      <TagBadge key={tag.name} tag={tag} />
+                                    ))}
+                                  </div>
+                                )}
+                              
+                                <div className="space-y-2">
+                                  <div className="flex items-center gap-2">
+                                    <span className="text-sm font-medium">Original:</span>
+                                    <a
+                                      href={link.originalUrl}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="text-sm text-blue-600 hover:underline flex items-center gap-1"
+                                    >
+                                      {link.originalUrl}
+                                      <ExternalLink className="h-3 w-3" />
+                                    </a>
+                                  </div>
+                                
+                                  <div className="flex items-center gap-2">
+                                    <span className="text-sm font-medium">Short Link:</span>
+                                    <code className="text-sm bg-gray-100 px-2 py-1 rounded">
+                                      {window.location.origin}/l/{link.shortUrl}
+                                    </code>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => copyToClipboard(`${window.location.origin}/l/${link.shortUrl}`)}
+                                    >
+                                      <Copy className="h-4 w-4" />
+                                    </Button>
+                                  </div>
+                                </div>
+                              
+                                <div className="flex items-center gap-4 mt-3 text-sm text-gray-500">
+                                  <span>Clicks: {link.clicks}</span>
+                                  <span>Created: {format(link.createdAt, 'MMM d, yyyy')}</span>
+                                  {link.activatesAt && (
+                                    <span>Opens: {format(link.activatesAt, 'MMM d, yyyy HH:mm')}</span>
+                                  )}
+                                  <span>Expires: {format(link.expiresAt, 'MMM d, yyyy HH:mm')}</span>
+                                </div>
+                              </div>
                             
-                            <div className="space-y-2">
-                              <div className="flex items-center gap-2">
-                                <span className="text-sm font-medium">Original:</span>
-                                <a
-                                  href={link.originalUrl}
-                                  target="_blank"
-                                  rel="noopener noreferrer"
-                                  className="text-sm text-blue-600 hover:underline flex items-center gap-1"
+                              <div className="flex items-center gap-1">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => window.location.href = `/analytics/${link.id}`}
+                                  title="View analytics"
                                 >
-                                  {link.originalUrl}
-                                  <ExternalLink className="h-3 w-3" />
-                                </a>
-                              </div>
-                              
-                              <div className="flex items-center gap-2">
-                                <span className="text-sm font-medium">Short Link:</span>
-                                <code className="text-sm bg-gray-100 px-2 py-1 rounded">
-                                  {window.location.origin}/l/{link.shortUrl}
-                                </code>
+                                  <BarChart3 className="h-4 w-4" />
+                                </Button>
                                 <Button
                                   variant="ghost"
                                   size="sm"
-                                  onClick={() => copyToClipboard(`${window.location.origin}/l/${link.shortUrl}`)}
+                                  onClick={() => setEditingLink(link)}
+                                  title="Edit link"
                                 >
-                                  <Copy className="h-4 w-4" />
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => deleteLink(link.id)}
+                                  className="text-red-600 hover:text-red-700"
+                                >
+                                  <Trash2 className="h-4 w-4" />
                                 </Button>
                               </div>
                             </div>
-                            
-                            <div className="flex items-center gap-4 mt-3 text-sm text-gray-500">
-                              <span>Clicks: {link.clicks}</span>
-                              <span>Created: {format(link.createdAt, 'MMM d, yyyy')}</span>
-                              <span>Expires: {format(link.expiresAt, 'MMM d, yyyy HH:mm')}</span>
-                            </div>
                           </div>
-                          
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => deleteLink(link.id)}
-                            className="text-red-600 hover:text-red-700"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
+                    )}
+                    {matchingLinks.length > 0 && (
+                      <p className="text-xs text-gray-500 text-center mt-4">
+                        Showing {(linksPage.page - 1) * LINKS_PAGE_SIZE + 1}-{(linksPage.page - 1) * LINKS_PAGE_SIZE + linksPage.items.length} of {matchingLinks.length} links
+                      </p>
+                    )}
+                    <ListPagination page={linksPage.page} pageCount={linksPage.pageCount} onPageChange={setPage} />
+                  </>
                 )}
               </CardContent>
             </Card>
           </div>
         </div>
       </div>
+
+      <EditLinkDialog
+        link={editingLink}
+        onOpenChange={(open) => !open && setEditingLink(null)}
+      />
+
+      <ImportLinksDialog open={importOpen} onOpenChange={setImportOpen} />
+      <TrashDialog open={trashOpen} onOpenChange={setTrashOpen} />
     </div>
   );
 };
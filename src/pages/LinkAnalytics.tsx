@@ -0,0 +1,265 @@
+import { useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from 'recharts';
+import { AlertTriangle, BarChart3, Clock, Eye, ExternalLink, Loader2, Timer } from 'lucide-react';
+import { format } from 'date-fns';
+import { useClicks, useLink } from '@/hooks/use-links';
+import { getDailyClicks, getDeviceBreakdown, getHourlyHeatmap, getReferrerBreakdown } from '@/lib/analytics';
+import { getLinkStatus, getTimeUntilExpiry, getVisitsLeftLabel } from '@/lib/link-status';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DEVICE_COLORS = ['#3b82f6', '#8b5cf6', '#10b981', '#f59e0b'];
+
+const LinkAnalytics = () => {
+  const { linkId } = useParams<{ linkId: string }>();
+  const { data: link, isLoading } = useLink(linkId);
+  const { data: clicks = [] } = useClicks(linkId);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardContent className="flex flex-col items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600 mb-4" />
+            <p className="text-gray-600">Loading analytics...</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!link) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <AlertTriangle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <CardTitle className="text-red-600">Link Not Found</CardTitle>
+            <CardDescription>
+              There are no analytics for this link. It may have been deleted.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center">
+            <Button onClick={() => window.location.href = '/analytics'}>
+              Back to Analytics
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const status = getLinkStatus(link, now);
+  const timelineEnd = link.expiresAt < now ? link.expiresAt : now;
+  const clickData = getDailyClicks(clicks, { from: link.createdAt, to: timelineEnd });
+  const heatmap = getHourlyHeatmap(clicks);
+  const heatmapMax = Math.max(1, ...heatmap.flat());
+  const referrerData = getReferrerBreakdown(clicks);
+  const deviceData = getDeviceBreakdown(clicks);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <h1 className="text-3xl font-bold text-gray-900">{link.title}</h1>
+              <Badge variant={status === 'active' ? 'default' : 'destructive'}>{status === 'exhausted' ? 'used up' : status}</Badge>
+            </div>
+            <p className="text-gray-600">
+              {window.location.origin}/l/{link.shortUrl} &rarr; {link.originalUrl}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => window.location.href = '/analytics'}
+              className="flex items-center gap-2"
+            >
+              <BarChart3 className="h-4 w-4" />
+              All Analytics
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => window.location.href = '/'}
+              className="flex items-center gap-2"
+            >
+              <ExternalLink className="h-4 w-4" />
+              Link Manager
+            </Button>
+          </div>
+        </div>
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Clicks</CardTitle>
+              <Eye className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{clicks.length}</div>
+              <p className="text-xs text-muted-foreground">
+                {clicks.length > 0
+                  ? `Last visit ${format(clicks[clicks.length - 1].timestamp, 'MMM d, yyyy HH:mm')}`
+                  : 'No visits yet'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Time Remaining</CardTitle>
+              <Timer className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{getTimeUntilExpiry(link.expiresAt, now)}</div>
+              <p className="text-xs text-muted-foreground">
+                Expires {format(link.expiresAt, 'MMM d, yyyy HH:mm')}
+                {getVisitsLeftLabel(link) && ` · ${getVisitsLeftLabel(link)}`}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Created</CardTitle>
+              <Clock className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{format(link.createdAt, 'MMM d, yyyy')}</div>
+              <p className="text-xs text-muted-foreground">
+                at {format(link.createdAt, 'HH:mm')}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Click Timeline */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Click Timeline</CardTitle>
+            <CardDescription>Daily clicks since the link was created</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={clickData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={(value) => format(new Date(value), 'MMM dd')}
+                />
+                <YAxis allowDecimals={false} />
+                <Tooltip
+                  labelFormatter={(value) => format(new Date(value), 'MMM dd, yyyy')}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="clicks"
+                  stroke="#3b82f6"
+                  strokeWidth={2}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        {/* Heatmap */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Activity Heatmap</CardTitle>
+            <CardDescription>Clicks by day of week and hour of day</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <div className="inline-grid gap-1" style={{ gridTemplateColumns: 'auto repeat(24, minmax(1.25rem, 1fr))' }}>
+                <div />
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <div key={hour} className="text-[10px] text-center text-gray-500">
+                    {hour % 3 === 0 ? hour.toString().padStart(2, '0') : ''}
+                  </div>
+                ))}
+                {heatmap.map((hours, day) => (
+                  <div key={day} className="contents">
+                    <div className="text-xs text-gray-500 pr-2">{DAY_LABELS[day]}</div>
+                    {hours.map((count, hour) => (
+                      <div
+                        key={hour}
+                        className="h-5 rounded-sm bg-blue-600"
+                        style={{ opacity: count === 0 ? 0.06 : 0.2 + (count / heatmapMax) * 0.8 }}
+                        title={`${DAY_LABELS[day]} ${hour.toString().padStart(2, '0')}:00 - ${count} clicks`}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Referrers */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Referrers</CardTitle>
+              <CardDescription>Where visitors came from</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {referrerData.length === 0 ? (
+                <p className="text-center py-8 text-gray-500">No visits recorded yet</p>
+              ) : (
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={referrerData} layout="vertical">
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" allowDecimals={false} />
+                    <YAxis type="category" dataKey="name" width={120} />
+                    <Tooltip />
+                    <Bar dataKey="value" name="Clicks" fill="#8b5cf6" />
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Devices */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Devices</CardTitle>
+              <CardDescription>Visits by device class</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {deviceData.length === 0 ? (
+                <p className="text-center py-8 text-gray-500">No visits recorded yet</p>
+              ) : (
+                <ResponsiveContainer width="100%" height={300}>
+                  <PieChart>
+                    <Pie
+                      data={deviceData}
+                      cx="50%"
+                      cy="50%"
+                      labelLine={false}
+                      label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                      outerRadius={80}
+                      dataKey="value"
+                    >
+                      {deviceData.map((entry, index) => (
+                        <Cell key={entry.name} fill={DEVICE_COLORS[index % DEVICE_COLORS.length]} />
+                      ))}
+                    </Pie>
+                    <Tooltip />
+                  </PieChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LinkAnalytics;
@@ -1,74 +1,138 @@
-import { useEffect, useState } from 'react';
-import { useParams, Navigate } from 'react-router-dom';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Loader2, ExternalLink, Clock, AlertTriangle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, ExternalLink, Clock, AlertTriangle, Trash2, Ban, UserX, Lock, CalendarClock, ShieldAlert, ShieldX } from 'lucide-react';
 import { format } from 'date-fns';
-
-interface Link {
-  id: string;
-  originalUrl: string;
-  shortUrl: string;
-  title: string;
-  description?: string;
-  expiresAt: Date;
-  createdAt: Date;
-  clicks: number;
-}
+import { useLinkByShortUrl, useRecordClick } from '@/hooks/use-links';
+import { getLinkStatus, getTimeUntilActivation, getVisitsLeftLabel } from '@/lib/link-status';
+import { ClickLimitReachedError } from '@/lib/link-repository';
+import { clearAttempts, getLockoutRemaining, recordFailedAttempt, verifyPassword } from '@/lib/link-password';
+import { collectClickMetadata } from '@/lib/click-tracking';
+import { validateDestination } from '@/lib/url-validation';
+import { getRedirectSettings } from '@/lib/redirect-mode';
+import { useToast } from '@/hooks/use-toast';
+import { useLifecycleEvents } from '@/hooks/use-link-lifecycle';
 
 const LinkRedirect = () => {
   const { shortUrl } = useParams<{ shortUrl: string }>();
-  const [link, setLink] = useState<Link | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { data, isLoading: loading, error, refetch } = useLinkByShortUrl(shortUrl);
+  const { mutateAsync: recordClick, isPending: isRedirecting } = useRecordClick();
+  const { toast } = useToast();
+  const link = data?.link;
+  const tombstone = data?.tombstone;
+  const [unlocked, setUnlocked] = useState(false);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const autoRedirectStarted = useRef(false);
+  const isScheduled = !!link && getLinkStatus(link, now) === 'scheduled';
+  const destination = useMemo(() => link && validateDestination(link.originalUrl), [link]);
+  const { mode: redirectMode, delay: redirectDelay } = getRedirectSettings(link ?? {});
+  // Anything that looks suspicious always gets the confirmation page, whatever the owner chose
+  const needsConfirmation = redirectMode === 'interstitial' || !!destination?.warnings.length;
+  const canRedirect = !!link && !link.deletedAt && getLinkStatus(link, now) === 'active'
+    && (!link.password || unlocked) && !destination?.errors.length;
 
+  // Tick while the link is scheduled so the page opens by itself at the start time
   useEffect(() => {
-    const findLink = async () => {
-      if (!shortUrl) {
-        setError('Invalid link');
-        setLoading(false);
+    if (!isScheduled) return;
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, [isScheduled]);
+
+  // Swap to the expired page the moment the link runs out, even mid-countdown
+  useLifecycleEvents((event) => {
+    if (event.link.id === link?.id) setNow(event.at);
+  }, ['expired']);
+
+  const unlock = async () => {
+    if (!link?.password || !password) return;
+
+    const lockedFor = getLockoutRemaining(link.id);
+    if (lockedFor > 0) {
+      setPasswordError(`Too many incorrect attempts. Try again in ${Math.ceil(lockedFor / 1000)} seconds.`);
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      if (await verifyPassword(password, link.password)) {
+        clearAttempts(link.id);
+        setPasswordError(null);
+        setUnlocked(true);
         return;
       }
 
-      // Simulate API call to find link
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // For demo purposes, we'll create a mock link
-      // In a real app, this would fetch from your database
-      const mockLink: Link = {
-        id: '1',
-        originalUrl: 'https://example.com',
-        shortUrl: shortUrl,
-        title: 'Example Link',
-        description: 'This is an example link for demonstration purposes',
-        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours from now
-        createdAt: new Date(),
-        clicks: 0,
-      };
-
-      // Check if link exists (in real app, this would be a database lookup)
-      if (shortUrl === 'demo') {
-        setLink(mockLink);
-      } else {
-        setError('Link not found');
-      }
-      
-      setLoading(false);
-    };
+      const { attemptsLeft, lockedFor: lockout } = recordFailedAttempt(link.id);
+      setPasswordError(lockout > 0
+        ? `Too many incorrect attempts. Try again in ${Math.ceil(lockout / 1000)} seconds.`
+        : `Incorrect password. ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`);
+      setPassword('');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
 
-    findLink();
-  }, [shortUrl]);
+  // Resolves to false when the visitor stays on this page
+  const handleRedirect = useCallback(async (): Promise<boolean> => {
+    if (!link || !destination?.url || destination.errors.length > 0) return false;
 
-  const handleRedirect = () => {
-    if (link) {
-      // In a real app, you would increment the click count here
-      window.location.href = link.originalUrl;
+    // Re-check expiry in case the link lapsed while this page was open
+    if (getLinkStatus(link) !== 'active') {
+      refetch();
+      return false;
     }
-  };
 
-  const isExpired = (date: Date) => {
-    return new Date() > date;
-  };
+    try {
+      await recordClick({ id: link.id, metadata: collectClickMetadata() });
+    } catch (error) {
+      if (error instanceof ClickLimitReachedError) {
+        // Someone else used the last visit; reload so the used-up screen shows
+        refetch();
+        return false;
+      }
+      console.error('Error recording click:', error);
+      toast({
+        title: "Could not open link",
+        description: "Something went wrong while opening this link. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    window.location.href = destination.url;
+    return true;
+  }, [link, destination, recordClick, refetch, toast]);
+
+  // Recording the click refreshes `link` and so gives handleRedirect a new identity; reading it
+  // through a ref keeps that from re-running the countdown effect and counting the visit twice
+  const handleRedirectRef = useRef(handleRedirect);
+  handleRedirectRef.current = handleRedirect;
+
+  // Start the automatic redirect once, as soon as nothing stands in the way
+  useEffect(() => {
+    if (!canRedirect || needsConfirmation || autoRedirectStarted.current) return;
+    autoRedirectStarted.current = true;
+    setCountdown(redirectMode === 'timed' ? redirectDelay : 0);
+  }, [canRedirect, needsConfirmation, redirectMode, redirectDelay]);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown > 0) {
+      const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+      return () => clearTimeout(timer);
+    }
+    // Fall back to the manual button if the redirect did not go through
+    handleRedirectRef.current().then((redirected) => {
+      if (!redirected) setCountdown(null);
+    });
+  }, [countdown]);
 
   if (loading) {
     return (
@@ -83,6 +147,30 @@ const LinkRedirect = () => {
     );
   }
 
+  if (!error && tombstone) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <Trash2 className="h-12 w-12 text-gray-500 mx-auto mb-4" />
+            <CardTitle className="text-gray-700">Link Deleted</CardTitle>
+            <CardDescription>
+              This link has been deleted and is no longer accessible.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center space-y-4">
+            <div className="text-sm text-gray-600">
+              <p>Deleted on: {format(tombstone.deletedAt, 'PPP \'at\' HH:mm')}</p>
+            </div>
+            <Button onClick={() => window.location.href = '/'}>
+              Go to Homepage
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (error || !link) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
@@ -91,7 +179,7 @@ const LinkRedirect = () => {
             <AlertTriangle className="h-12 w-12 text-red-500 mx-auto mb-4" />
             <CardTitle className="text-red-600">Link Not Found</CardTitle>
             <CardDescription>
-              The link you're looking for doesn't exist or has been removed.
+              The link you're looking for doesn't exist. Please check the address and try again.
             </CardDescription>
           </CardHeader>
           <CardContent className="text-center">
@@ -104,7 +192,32 @@ const LinkRedirect = () => {
     );
   }
 
-  if (isExpired(link.expiresAt)) {
+  // In the Trash: it may still be restored, so say so rather than calling it deleted
+  if (link.deletedAt) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <UserX className="h-12 w-12 text-gray-500 mx-auto mb-4" />
+            <CardTitle className="text-gray-700">Removed by Owner</CardTitle>
+            <CardDescription>
+              The owner of this link has removed it, so it no longer redirects anywhere.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center space-y-4">
+            <div className="text-sm text-gray-600">
+              <p>Removed on: {format(link.deletedAt, 'PPP \'at\' HH:mm')}</p>
+            </div>
+            <Button onClick={() => window.location.href = '/'}>
+              Go to Homepage
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (getLinkStatus(link, now) === 'expired') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
         <Card className="w-full max-w-md">
@@ -128,6 +241,145 @@ const LinkRedirect = () => {
     );
   }
 
+  if (isScheduled) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CalendarClock className="h-12 w-12 text-indigo-500 mx-auto mb-4" />
+            <CardTitle className="text-indigo-600">Not Yet Available</CardTitle>
+            <CardDescription>
+              This link opens in {getTimeUntilActivation(link, now)}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center space-y-4">
+            <div className="text-sm text-gray-600">
+              <p>Available from: {format(link.activatesAt!, 'PPP \'at\' HH:mm')}</p>
+            </div>
+            <Button onClick={() => window.location.href = '/'}>
+              Go to Homepage
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (getLinkStatus(link) === 'exhausted') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <Ban className="h-12 w-12 text-orange-500 mx-auto mb-4" />
+            <CardTitle className="text-orange-600">Link Used Up</CardTitle>
+            <CardDescription>
+              This link has reached its visit limit and is no longer accessible.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center space-y-4">
+            <div className="text-sm text-gray-600">
+              <p>Allowed visits: {link.maxClicks}</p>
+            </div>
+            <Button onClick={() => window.location.href = '/'}>
+              Go to Homepage
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (destination?.errors.length) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <ShieldX className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <CardTitle className="text-red-600">Destination Blocked</CardTitle>
+            <CardDescription>
+              This link points somewhere that is not considered safe, so it cannot be opened.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="text-center space-y-4">
+            <div className="text-sm text-gray-600">
+              <p>{destination.errors[0]}</p>
+            </div>
+            <Button onClick={() => window.location.href = '/'}>
+              Go to Homepage
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (link.password && !unlocked) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <Lock className="h-12 w-12 text-blue-600 mx-auto mb-4" />
+            <CardTitle>Password Required</CardTitle>
+            <CardDescription>
+              This link is protected. Enter the password to continue.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                unlock();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="link-password">Password</Label>
+                <Input
+                  id="link-password"
+                  type="password"
+                  autoComplete="current-password"
+                  autoFocus
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+                {passwordError && (
+                  <p className="text-sm text-red-600">{passwordError}</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1" disabled={!password || isVerifying}>
+                  {isVerifying ? 'Checking...' : 'Unlock'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => window.location.href = '/'}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (redirectMode === 'immediate' && countdown !== null) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardContent className="flex flex-col items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600 mb-4" />
+            <p className="text-gray-600">Redirecting to {new URL(destination!.url!).hostname}...</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const destinationUrl = new URL(destination!.url!);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -140,28 +392,72 @@ const LinkRedirect = () => {
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="text-sm text-gray-600 space-y-2">
-            <p><strong>Destination:</strong></p>
-            <p className="break-all bg-gray-100 p-2 rounded text-xs">
-              {link.originalUrl}
-            </p>
+            <p><strong>You are about to visit:</strong></p>
+            <div className="bg-gray-100 p-2 rounded space-y-1">
+              <p className="font-semibold text-gray-900 break-all">{destinationUrl.hostname}</p>
+              <p className="break-all text-xs">{destinationUrl.toString()}</p>
+            </div>
+            {destination!.warnings.length > 0 && (
+              <div className="rounded border border-amber-300 bg-amber-50 p-2 text-amber-800 space-y-1">
+                <p className="flex items-center gap-1 font-medium">
+                  <ShieldAlert className="h-4 w-4" />
+                  Check this destination before continuing
+                </p>
+                {destination!.warnings.map((warning) => (
+                  <p key={warning} className="text-xs">{warning}</p>
+                ))}
+              </div>
+            )}
             <p className="flex items-center gap-1">
               <Clock className="h-4 w-4" />
               Expires: {format(link.expiresAt, 'PPP \'at\' HH:mm')}
             </p>
+            {getVisitsLeftLabel(link) && (
+              <p className="flex items-center gap-1">
+                <Ban className="h-4 w-4" />
+                {link.maxClicks === 1
+                  ? 'This link can only be opened once.'
+                  : getVisitsLeftLabel(link)}
+              </p>
+            )}
           </div>
-          
+
+          {countdown !== null && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600 text-center">
+                {countdown > 0
+                  ? `Redirecting in ${countdown} second${countdown === 1 ? '' : 's'}...`
+                  : 'Redirecting...'}
+              </p>
+              <Progress value={((redirectDelay - countdown) / redirectDelay) * 100} />
+            </div>
+          )}
+
           <div className="flex gap-2">
-            <Button onClick={handleRedirect} className="flex-1">
-              Continue to Link
-            </Button>
-            <Button 
-              variant="outline" 
-              onClick={() => window.location.href = '/'}
+            <Button
+              onClick={() => {
+                setCountdown(null);
+                handleRedirect();
+              }}
+              className="flex-1"
+              disabled={isRedirecting}
             >
-              Cancel
+              {isRedirecting ? 'Redirecting...' : countdown !== null ? 'Continue Now' : 'Continue to Link'}
             </Button>
+            {countdown !== null ? (
+              <Button variant="outline" onClick={() => setCountdown(null)}>
+                Stay Here
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => window.location.href = '/'}
+              >
+                Cancel
+              </Button>
+            )}
           </div>
-          
+
           <p className="text-xs text-gray-500 text-center">
             By clicking "Continue to Link", you'll be redirected to an external website.
           </p>